@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { Handler, HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import * as articleStore from './shared/articleStore';
+import { createLocalEmbeddingProvider, setEmbeddingProvider } from './shared/embeddings';
+import { createJob, runJob } from './shared/ingestJob';
+import { createFileBackend } from './shared/storage';
+import * as tenants from './shared/tenants';
+import { createTempStore, quietLogs, TempStore, testArticle, testSource } from './shared/testing';
+
+let store: TempStore;
+
+// The admin function on its own copy of the modules, like another warm function instance
+function otherInstance(): Handler {
+  let handler!: Handler;
+  jest.isolateModules(() => {
+    handler = require('./admin-articles').handler;
+    require('./shared/storage').setStorageBackend(createFileBackend(store.rootDir));
+    require('./shared/embeddings').setEmbeddingProvider(createLocalEmbeddingProvider());
+  });
+  return handler;
+}
+
+async function call(handler: Handler, httpMethod: string, params: Record<string, string> = {}): Promise<number> {
+  const event = { httpMethod, headers: { authorization: 'Bearer secret' }, queryStringParameters: params } as unknown as HandlerEvent;
+  return ((await handler(event, {} as HandlerContext)) as HandlerResponse).statusCode;
+}
+
+// The index as a cold instance would load it
+async function storedArticleIds(): Promise<string[]> {
+  let fresh!: typeof articleStore;
+  jest.isolateModules(() => {
+    fresh = require('./shared/articleStore');
+    require('./shared/storage').setStorageBackend(createFileBackend(store.rootDir));
+    require('./shared/embeddings').setEmbeddingProvider(createLocalEmbeddingProvider());
+  });
+  await fresh.loadIndex();
+  return fresh.getAllArticles().map(article => article.id).sort();
+}
+
+beforeEach(async () => {
+  quietLogs();
+  store = await createTempStore('admin-articles');
+  setEmbeddingProvider(createLocalEmbeddingProvider());
+  process.env.ADMIN_API_KEY = 'secret';
+});
+
+afterEach(async () => {
+  articleStore.clearArticles();
+  setEmbeddingProvider(null);
+  jest.restoreAllMocks();
+  delete process.env.ADMIN_API_KEY;
+  await store.remove();
+});
+
+test('an article deleted while an ingest is running stays deleted when the ingest saves', async () => {
+  const admin = otherInstance();
+  const deletes: number[] = [];
+  // After the checkpoint at 20 articles, so a5 is in the saved index the delete works on
+  jest.spyOn(tenants, 'getTenantSources').mockReturnValue([testSource(25, async ref => {
+    if (ref.id === 'a22') deletes.push(await call(admin, 'DELETE', { id: 'a5' }));
+  })]);
+
+  const job = await runJob(await createJob(), Infinity);
+
+  expect(deletes).toEqual([200]);
+  expect(job.status).toBe('completed');
+  expect(await storedArticleIds()).toHaveLength(24);
+  expect(await storedArticleIds()).not.toContain('a5');
+});
+
+test('a delete from an instance that loaded before an ingest checkpoint keeps the ingested articles', async () => {
+  await articleStore.storeArticle(testArticle('retired', 'Retired', 'This feature was retired last year.'));
+  const admin = otherInstance();
+  expect(await call(admin, 'GET')).toBe(200);
+
+  jest.spyOn(tenants, 'getTenantSources').mockReturnValue([testSource(25)]);
+  await runJob(await createJob(), Infinity);
+  expect(await call(admin, 'DELETE', { id: 'retired' })).toBe(200);
+
+  const stored = await storedArticleIds();
+  expect(stored).toHaveLength(25);
+  expect(stored).not.toContain('retired');
+});
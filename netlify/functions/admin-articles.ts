@@ -0,0 +1,187 @@
+import { Handler } from '@netlify/functions';
+import { checkAdminAccess, parseCount } from './shared/admin';
+import { Article, getAllArticles, getArticle, getChunkEmbedding, loadIndex, removeArticle } from './shared/articleStore';
+import { reindexArticle } from './shared/ingestJob';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// An article's fields without its text and chunks, with chunk counts by embedding status
+function summariseArticle(article: Article, tenant: string) {
+  const { text, chunks, ...fields } = article;
+  const embeddings = { current: 0, stale: 0, missing: 0 };
+  chunks.forEach(chunk => {
+    embeddings[getChunkEmbedding(chunk, tenant).status]++;
+  });
+  return { ...fields, sourceId: article.sourceId || 'helpscout', chunks: chunks.length, embeddings };
+}
+
+// An article with its text and every chunk's text and embedding status
+function describeArticle(article: Article, tenant: string) {
+  return {
+    ...summariseArticle(article, tenant),
+    text: article.text,
+    chunks: article.chunks.map(chunk => {
+      const { embedding, embeddingModel, embeddingDimensions, ...fields } = chunk;
+      return { ...fields, embedding: getChunkEmbedding(chunk, tenant) };
+    }),
+  };
+}
+
+// Browse, delete and re-index articles in a tenant's index; needs the admin key
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST' && event.httpMethod !== 'DELETE') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const denied = checkAdminAccess(event);
+  if (denied) {
+    return {
+      statusCode: denied.statusCode,
+      headers,
+      body: JSON.stringify({ error: denied.error }),
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+    const tenant = parseTenant(params.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    await loadIndex(tenant.id);
+
+    // Without an id, GET lists a page of articles
+    if (!params.id) {
+      if (event.httpMethod !== 'GET') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'id is required' }),
+        };
+      }
+
+      const page = parseCount(params.page, 'page', 1);
+      if (typeof page === 'string') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: page }),
+        };
+      }
+
+      const pageSize = parseCount(params.pageSize, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+      if (typeof pageSize === 'string') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: pageSize }),
+        };
+      }
+
+      const search = (params.q || '').trim().toLowerCase();
+      const articles = getAllArticles(tenant.id)
+        .filter(article => !params.source || (article.sourceId || 'helpscout') === params.source)
+        .filter(article => !search || article.name.toLowerCase().includes(search) || article.id.toLowerCase().includes(search))
+        .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          tenant: tenant.id,
+          page,
+          pageSize,
+          total: articles.length,
+          totalPages: Math.ceil(articles.length / pageSize),
+          articles: articles.slice((page - 1) * pageSize, page * pageSize).map(article => summariseArticle(article, tenant.id)),
+        }),
+      };
+    }
+
+    if (event.httpMethod === 'POST') {
+      const reindexed = await reindexArticle(params.id, tenant.id);
+      if (reindexed === null || typeof reindexed === 'string') {
+        return {
+          statusCode: reindexed === null ? 404 : 409,
+          headers,
+          body: JSON.stringify({ error: reindexed || `Unknown article: ${params.id}` }),
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ tenant: tenant.id, article: describeArticle(reindexed, tenant.id) }),
+      };
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      const removed = await removeArticle(params.id, { tenant: tenant.id });
+      if (removed) {
+        console.log(`🗑️ Deleted article ${params.id} from tenant ${tenant.id}`);
+      }
+
+      return {
+        statusCode: removed ? 200 : 404,
+        headers,
+        body: JSON.stringify(removed ? { tenant: tenant.id, deleted: params.id } : { error: `Unknown article: ${params.id}` }),
+      };
+    }
+
+    const article = getArticle(params.id, tenant.id);
+    if (!article) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: `Unknown article: ${params.id}` }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ tenant: tenant.id, article: describeArticle(article, tenant.id) }),
+    };
+  } catch (error) {
+    console.error('Error in admin articles function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,121 @@
+import { Handler } from '@netlify/functions';
+import { checkAdminAccess } from './shared/admin';
+import { getStorageStats, loadIndex, purgeIndex } from './shared/articleStore';
+import { getCurrentJob, getJobStatusReport, IngestJobStatusReport, listJobHistory } from './shared/ingestJob';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+const INGEST_HISTORY_LENGTH = 10;
+
+// A job's status and timing, with its changes counted rather than listed
+function summariseJob(report: IngestJobStatusReport) {
+  return {
+    id: report.id,
+    status: report.status,
+    startedAt: report.startedAt,
+    finishedAt: report.finishedAt || null,
+    processed: report.processed,
+    diff: {
+      added: report.diff.added.length,
+      updated: report.diff.updated.length,
+      removed: report.diff.removed.length,
+      unchanged: report.diff.unchanged,
+    },
+    errorCount: report.errorCount,
+  };
+}
+
+// GET reports detailed index stats; DELETE purges the index. Both need the admin key.
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'DELETE') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const denied = checkAdminAccess(event);
+  if (denied) {
+    return {
+      statusCode: denied.statusCode,
+      headers,
+      body: JSON.stringify({ error: denied.error }),
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+    const tenant = parseTenant(params.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      // Guard against purging by accident, e.g. a DELETE meant for one article
+      if (params.confirm !== 'true') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Purging the index needs confirm=true' }),
+        };
+      }
+
+      const purged = await purgeIndex(tenant.id);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ tenant: tenant.id, purged }),
+      };
+    }
+
+    await loadIndex(tenant.id);
+    const job = await getCurrentJob(tenant.id);
+    const history = await listJobHistory(tenant.id, INGEST_HISTORY_LENGTH);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        ...getStorageStats(tenant.id),
+        lastIngest: job && summariseJob(getJobStatusReport(job)),
+        // Finished jobs, newest first
+        ingestHistory: history.map(summariseJob),
+      }),
+    };
+  } catch (error) {
+    console.error('Error in admin index function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,101 @@
+import { Handler } from '@netlify/functions';
+import { checkAdminAccess, parseCount } from './shared/admin';
+import { buildContentGapReport } from './shared/analytics';
+import { loadIndex } from './shared/articleStore';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Content-gap report over the query log; needs the admin key
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // Only allow GET requests
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const denied = checkAdminAccess(event);
+  if (denied) {
+    return {
+      statusCode: denied.statusCode,
+      headers,
+      body: JSON.stringify({ error: denied.error }),
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+    const tenant = parseTenant(params.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    const days = parseCount(params.days, 'days', DEFAULT_DAYS, MAX_DAYS);
+    if (typeof days === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: days }),
+      };
+    }
+
+    const limit = parseCount(params.limit, 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+    if (typeof limit === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: limit }),
+      };
+    }
+
+    // Never-cited articles come from the index
+    await loadIndex(tenant.id);
+    const report = await buildContentGapReport(tenant.id, days, limit);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(report),
+    };
+  } catch (error) {
+    console.error('Error in analytics function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
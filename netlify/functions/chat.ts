@@ -1,18 +1,178 @@
-import { Handler } from '@netlify/functions';
+import { stream } from '@netlify/functions';
 import OpenAI from 'openai';
-import { searchArticles, ArticleChunk } from './shared/articleStore';
+import { PassThrough } from 'stream';
+import { checkAdminAccess } from './shared/admin';
+import { answeredOutcome, logQuery, QueryOutcome, topScores } from './shared/analytics';
+import { ArticleChunk, findRelatedArticles, getSimilarityCutoff, searchChunks, SearchResult, SearchWeights } from './shared/articleStore';
+import { Citation, extractCitations, stripCitationMarkers } from './shared/citations';
+import { parseHistory, rewriteQuery, trimHistory } from './shared/conversation';
+import { appendTurns, Conversation, createConversation, getConversation, isConversationId, TurnSource } from './shared/conversationStore';
+import { createAnswerId, recordAnswer, retrievedChunks } from './shared/feedback';
+import { suggestFollowUps } from './shared/followUps';
+import { checkGrounding, getGroundingOptions } from './shared/grounding';
+import { parseSearchFilter } from './shared/filters';
+import { AnswerLanguage, languageName, normaliseLanguage, resolveAnswerLanguage, SUPPORTED_LANGUAGES } from './shared/language';
+import { fallbackTextFor, getAssistantProfile, getAssistantProfiles, renderTemplate } from './shared/profiles';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-export const handler: Handler = async (event, context) => {
+const MAX_SUGGESTED_ARTICLES = 3;
+const MAX_RELATED_ARTICLES = 3;
+// Earlier turns passed to the model, newest first, until this many tokens
+const HISTORY_MAX_TOKENS = Number(process.env.CHAT_HISTORY_MAX_TOKENS) || 1500;
+
+// Optional { lexical, semantic } weights for hybrid search; returns an error message if invalid
+function parseWeights(weights: unknown): Partial<SearchWeights> | string | undefined {
+  if (weights === undefined || weights === null) return undefined;
+  if (typeof weights !== 'object' || Array.isArray(weights)) return 'weights must be an object';
+
+  const input: Partial<Record<keyof SearchWeights, unknown>> = weights;
+  const parsed: Partial<SearchWeights> = {};
+  for (const key of ['lexical', 'semantic'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      return `weights.${key} must be a non-negative number`;
+    }
+    parsed[key] = value;
+  }
+  if (parsed.lexical === 0 && parsed.semantic === 0) {
+    return 'At least one of weights.lexical and weights.semantic must be positive';
+  }
+  return parsed;
+}
+
+// Closest articles to point at when there's no answer, best match first
+function suggestArticles(chunks: ArticleChunk[]): Array<{name: string, url: string}> {
+  const suggestedArticles: Array<{name: string, url: string}> = [];
+  chunks.forEach(chunk => {
+    if (suggestedArticles.length < MAX_SUGGESTED_ARTICLES && chunk.url && !suggestedArticles.find(a => a.url === chunk.url)) {
+      suggestedArticles.push({ name: chunk.articleName, url: chunk.url });
+    }
+  });
+  return suggestedArticles;
+}
+
+// Languages of the chunks an answer is based on, and whether they match the answer's
+function describeRetrievalLanguages(language: string, chunks: ArticleChunk[]) {
+  const chunkLanguages: Record<string, number> = {};
+  chunks.forEach(chunk => {
+    const key = chunk.language || 'unknown';
+    chunkLanguages[key] = (chunkLanguages[key] || 0) + 1;
+  });
+
+  const matching = chunkLanguages[language] || 0;
+  let retrieval: 'same-language' | 'cross-lingual' | 'mixed' | 'none' = 'mixed';
+  if (chunks.length === 0) retrieval = 'none';
+  else if (matching === chunks.length) retrieval = 'same-language';
+  else if (matching === 0) retrieval = 'cross-lingual';
+  return { retrieval, chunkLanguages };
+}
+
+// Answer records, conversations and the query log are kept for later; failing to store
+// them loses rating, resuming or analytics for this answer, but shouldn't fail it
+async function storeQuietly(what: string, write: () => Promise<void>): Promise<void> {
+  try {
+    await write();
+  } catch (error) {
+    console.error(`Error storing ${what}:`, error);
+  }
+}
+
+// Each article behind a set of chunks once, best match first
+function articlesOf(chunks: ArticleChunk[]): Array<{ articleId: string; name: string; url: string }> {
+  const articles: Array<{ articleId: string; name: string; url: string }> = [];
+  chunks.forEach(chunk => {
+    if (!articles.find(article => article.articleId === chunk.articleId)) {
+      articles.push({ articleId: chunk.articleId, name: chunk.articleName, url: chunk.url });
+    }
+  });
+  return articles;
+}
+
+// Every ranked chunk with all its scores, for inspecting retrieval
+function describeResults(results: SearchResult[]) {
+  return results.map(({ chunk, ...scores }) => ({
+    id: chunk.id,
+    articleId: chunk.articleId,
+    articleName: chunk.articleName,
+    url: chunk.url,
+    headings: chunk.headings,
+    language: chunk.language,
+    text: chunk.text,
+    ...scores,
+  }));
+}
+
+// One Server-Sent Events frame
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Streams an answer: `delta` events with answer text as it's generated (unless
+// `sendDeltas` is false), then `done` with the token usage and whatever `finish` derives
+// from the full answer (or `error`). Closing the connection cancels the completion.
+function streamCompletion(
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  body: PassThrough,
+  finish: (answer: string) => Promise<Record<string, unknown>>,
+  sendDeltas: boolean
+): void {
+  const controller = new AbortController();
+  body.on('close', () => controller.abort());
+
+  (async () => {
+    try {
+      const completion = await openai.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal: controller.signal }
+      );
+
+      let usage: OpenAI.CompletionUsage | null = null;
+      let answer = '';
+      for await (const part of completion) {
+        const text = part.choices[0]?.delta?.content;
+        if (text) {
+          answer += text;
+          if (sendDeltas) body.write(sseEvent('delta', { text }));
+        }
+        if (part.usage) usage = part.usage;
+      }
+      body.end(sseEvent('done', { ...await finish(answer), usage }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('🛑 Client closed the stream, completion cancelled');
+        return;
+      }
+      console.error('Error streaming answer:', error);
+      body.end(sseEvent('error', {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }));
+    }
+  })();
+}
+
+// Streaming needs the response wrapped; JSON responses pass through unchanged
+export const handler = stream(async (event, context) => {
+  connectStorage(event);
+
   // Enable CORS
   const headers = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
   };
+  const streamHeaders = {
+    ...headers,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  };
 
   // Handle preflight requests
   if (event.httpMethod === 'OPTIONS') {
@@ -34,7 +194,11 @@ export const handler: Handler = async (event, context) => {
 
   try {
     // Parse the request body
-    const { query } = JSON.parse(event.body || '{}');
+    const { query, weights: rawWeights, filters: rawFilters, history: rawHistory, stream: rawStream, profile: profileName, tenant: tenantId, language: rawLanguage, conversationId, debug: rawDebug } = JSON.parse(event.body || '{}');
+    // Admin playground runs return the ranked chunks and the prompt alongside the answer
+    const debug = rawDebug === true;
+    // Stream over SSE when asked for in the body or the Accept header
+    const streaming = !debug && (rawStream === true || (event.headers.accept || '').includes('text/event-stream'));
 
     if (!query) {
       return {
@@ -44,91 +208,378 @@ export const handler: Handler = async (event, context) => {
       };
     }
 
+    if (debug) {
+      const denied = checkAdminAccess(event);
+      if (denied) {
+        return {
+          statusCode: denied.statusCode,
+          headers,
+          body: JSON.stringify({ error: denied.error }),
+        };
+      }
+    }
+
+    // Playground runs leave no answer record, conversation or query log entry behind
+    const keep = (what: string, write: () => Promise<void>) => (debug ? Promise.resolve() : storeQuietly(what, write));
+
+    const weights = parseWeights(rawWeights);
+    if (typeof weights === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: weights }),
+      };
+    }
+
+    // Optional metadata filter, e.g. to scope an embedded widget to one product's docs
+    const filter = rawFilters === undefined || rawFilters === null ? undefined : parseSearchFilter(rawFilters);
+    if (typeof filter === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: filter }),
+      };
+    }
+
+    // The knowledge base to answer from; each tenant has its own index and profiles
+    const tenant = parseTenant(tenantId);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    // Prompt, model and retrieval settings, e.g. terse for agents and friendly for customers
+    if (profileName !== undefined && typeof profileName !== 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'profile must be a string' }),
+      };
+    }
+    const profile = getAssistantProfile(profileName, tenant.id);
+    if (!profile) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: `Unknown profile: ${profileName}`,
+          profiles: Array.from(getAssistantProfiles(tenant.id).keys()),
+        }),
+      };
+    }
+
+    // Earlier turns of the conversation, oldest first
+    const requestHistory = parseHistory(rawHistory);
+    if (typeof requestHistory === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: requestHistory }),
+      };
+    }
+
+    // A stored conversation supplies its own history; without one, a new conversation
+    // starts from whatever history the client sent
+    let conversation: Conversation;
+    if (conversationId !== undefined && conversationId !== null) {
+      if (requestHistory.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Send either history or conversationId, not both' }),
+        };
+      }
+      const stored = isConversationId(conversationId) ? await getConversation(conversationId, tenant.id) : null;
+      if (!stored) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: `Unknown or expired conversation: ${conversationId}` }),
+        };
+      }
+      conversation = stored;
+    } else {
+      conversation = createConversation(tenant.id, requestHistory);
+      // Stored up front so the id works even if this answer never finishes
+      await keep(`conversation ${conversation.id}`, () => appendTurns(conversation, []));
+    }
+    const history = conversation.turns.map(({ role, content }) => ({ role, content }));
+    const askedAt = new Date().toISOString();
+
+    // Answers are written in the language the user asks in unless the request sets one
+    const requestedLanguage = typeof rawLanguage === 'string' ? normaliseLanguage(rawLanguage) : rawLanguage;
+    if (requestedLanguage !== undefined && requestedLanguage !== null && !SUPPORTED_LANGUAGES.includes(requestedLanguage)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}` }),
+      };
+    }
+    let answerLanguage: AnswerLanguage = resolveAnswerLanguage(query, history, requestedLanguage || undefined);
+
+    // Follow-ups like "and on Android?" only make sense with the earlier turns
+    const searchQuery = await rewriteQuery(query, history);
+    if (searchQuery !== query) {
+      console.log(`✏️ Rewrote a ${query.length}-character follow-up as a ${searchQuery.length}-character standalone query`);
+    }
+
     // Search for relevant articles using RAG
-    console.log(`Searching for query: "${query}"`);
-    const relevantChunks = await searchArticles(query, 5);
+    console.log(`🔎 Searching for a ${searchQuery.length}-character query (tenant ${tenant.id}, profile ${profile.name}, language ${answerLanguage.language} from ${answerLanguage.from})`);
+    const results = await searchChunks(searchQuery, profile.retrievalLimit, {
+      weights,
+      filter,
+      tenant: tenant.id,
+      // Without a language from the user, let the documentation decide
+      language: answerLanguage.from === 'default' ? undefined : answerLanguage.language,
+    });
+    const relevantResults = results.filter(result => result.relevant);
+    const relevantChunks = relevantResults.map(result => result.chunk);
     console.log(`Found ${relevantChunks.length} relevant chunks`);
+
+    // A question too short to tell ("exportar facturas") is most likely in the language
+    // of the documentation it matched
+    if (answerLanguage.from === 'default' && relevantChunks[0] && relevantChunks[0].language) {
+      answerLanguage = { ...answerLanguage, language: relevantChunks[0].language, from: 'documentation' };
+    }
+    const language = { ...answerLanguage, ...describeRetrievalLanguages(answerLanguage.language, relevantChunks) };
+    const fallbackText = fallbackTextFor(profile, language.language);
+
+    // Returned with the answer so the user can rate it
+    const answerId = createAnswerId();
+    const saveAnswer = (answer: string, answerable: boolean, retrieved: SearchResult[], model: string | null) => keep(`answer ${answerId}`, () => recordAnswer({
+      id: answerId,
+      tenant: tenant.id,
+      query,
+      searchQuery,
+      answer,
+      answerable,
+      model,
+      profile: profile.name,
+      language: language.language,
+      chunks: retrievedChunks(retrieved),
+      conversationId: conversation.id,
+      createdAt: new Date().toISOString(),
+    }));
+    const saveTurns = (answer: string, answerable: boolean, shown: TurnSource[], citations: Citation[]) => keep(`conversation ${conversation.id}`, () => appendTurns(conversation, [
+      { role: 'user', content: query, createdAt: askedAt },
+      { role: 'assistant', content: answer, createdAt: new Date().toISOString(), answerId, answerable, sources: shown, citations },
+    ]));
+    // For content-gap reports: what was asked, how well the docs matched and what was cited
+    const saveQueryLog = (outcome: QueryOutcome, retrieved: SearchResult[], citations: Citation[]) => keep('query log entry', () => logQuery({
+      tenant: tenant.id,
+      query,
+      searchQuery,
+      outcome,
+      ...topScores(results),
+      relevantChunks: relevantChunks.length,
+      sources: articlesOf(retrieved.map(result => result.chunk)),
+      citedArticleIds: Array.from(new Set(citations.map(citation => citation.articleId))),
+      answerId,
+      language: language.language,
+    }));
+    
+    // Nothing cleared the relevance bar: skip the model rather than let it answer
+    // from unrelated text, and point at the closest articles instead
+    if (relevantChunks.length === 0) {
+      const suggestedArticles = suggestArticles(results.map(result => result.chunk));
+      console.log(`🤷 No relevant documentation, suggesting ${suggestedArticles.length} articles`);
+      await Promise.all([
+        saveAnswer(fallbackText, false, results, null),
+        saveTurns(fallbackText, false, suggestedArticles, []),
+        saveQueryLog('unanswered', results.slice(0, MAX_SUGGESTED_ARTICLES), []),
+      ]);
+      
+      if (streaming) {
+        return {
+          statusCode: 200,
+          headers: streamHeaders,
+          body: sseEvent('sources', { answerable: false, sources: [], suggestedArticles, conversationId: conversation.id, rewrittenQuery: searchQuery, tenant: tenant.id, profile: profile.name, language })
+            + sseEvent('delta', { text: fallbackText })
+            + sseEvent('done', { answerId, conversationId: conversation.id, answerable: false, relevantChunks: 0, rewrittenQuery: searchQuery, usage: null }),
+        };
+      }
+      
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          answerId,
+          conversationId: conversation.id,
+          answerable: false,
+          answer: fallbackText,
+          sources: [],
+          suggestedArticles,
+          relevantChunks: 0,
+          rewrittenQuery: searchQuery,
+          tenant: tenant.id,
+          profile: profile.name,
+          language,
+          // Nothing is sent to the model without relevant chunks
+          ...(debug ? { debug: { similarityCutoff: getSimilarityCutoff(), results: describeResults(results), prompt: null } } : {}),
+        }),
+      };
+    }
     
     // Build context from relevant articles
-    let context = '';
+    let documentation = '';
     const sources: Array<{name: string, url: string}> = [];
     
-    if (relevantChunks.length > 0) {
-      context = 'Based on the following documentation:\n\n';
-      
-      relevantChunks.forEach((chunk, index) => {
-        context += `${index + 1}. From "${chunk.articleName}":\n${chunk.text}\n\n`;
-        
-        // Add unique sources
-        if (!sources.find(s => s.url === chunk.url)) {
-          sources.push({
-            name: chunk.articleName,
-            url: chunk.url,
-          });
-        }
-      });
+    relevantChunks.forEach((chunk, index) => {
+      documentation += `[${index + 1}] From "${chunk.articleName}":\n${chunk.text}\n\n`;
       
-      context += `Please answer the user's question based on this documentation. If the documentation doesn't contain the answer, say so honestly.\n\nUser question: ${query}`;
-    } else {
-      context = `I don't have any relevant documentation for this question: ${query}. 
+      // Add unique sources, deep-linking to the chunk's section when it has one
+      const url = chunk.anchor && chunk.url ? `${chunk.url}#${chunk.anchor}` : chunk.url;
+      const section = chunk.headings && chunk.headings.length > 0 ? chunk.headings[chunk.headings.length - 1] : '';
+      if (!sources.find(s => s.url === url)) {
+        sources.push({
+          name: section && section !== chunk.articleName ? `${chunk.articleName} – ${section}` : chunk.articleName,
+          url,
+        });
+      }
+    });
+    
+    // Further reading: articles on the same topic that didn't make it into the context
+    const related = await findRelatedArticles(Array.from(new Set(relevantChunks.map(chunk => chunk.articleId))), MAX_RELATED_ARTICLES, {
+      filter,
+      tenant: tenant.id,
+      language: language.language,
+    });
+    const relatedArticles = related.map(article => ({ name: article.name, url: article.url }));
+    console.log(`🔗 Found ${relatedArticles.length} related articles`);
 
-Note: This is a demo with limited article processing. In a full implementation, I would have access to your complete HelpScout knowledge base with semantic search capabilities.
+    // Generated alongside the answer, from the same chunks, so they add no wait
+    const followUps = suggestFollowUps(query, relevantChunks, { language: language.language, history });
 
-I can still try to help with general questions about your platform or documentation structure. Please let me know if you'd like me to help with something else or if you can rephrase your question.`;
-    }
+    const variables = {
+      brandName: profile.brandName,
+      context: documentation,
+      question: query,
+      language: languageName(language.language),
+    };
+    const systemPrompt = renderTemplate(profile.systemPrompt, variables);
+    const context = renderTemplate(profile.contextTemplate, variables);
 
-    // Debug logging for production
-    console.log(`📊 PRODUCTION DEBUG:`);
+    // Sizes only; the prompt itself is returned to admin playground (debug) requests
+    console.log(`📊 Prompt:`);
     console.log(`- Context length: ${context.length} chars`);
     console.log(`- Sources found: ${sources.length}`);
     console.log(`- OpenAI API Key configured: ${!!process.env.OPENAI_API_KEY}`);
-    
-    if (relevantChunks.length > 0) {
-      console.log(`- Sample chunk: "${relevantChunks[0].text.substring(0, 150)}..."`);
-      console.log(`- Chunk article: "${relevantChunks[0].articleName}"`);
-    }
-    
-    console.log(`- Context preview: "${context.substring(0, 300)}..."`);
-    console.log(`- Full context being sent to OpenAI: "${context}"`);
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
+    // Earlier answers' markers pointed at their own context blocks, not this one's
+    const recentHistory = trimHistory(history, HISTORY_MAX_TOKENS, profile.model)
+      .map(turn => (turn.role === 'assistant' ? { ...turn, content: stripCitationMarkers(turn.content) } : turn));
+    console.log(`- History turns: ${recentHistory.length} of ${history.length}`);
+
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: profile.model,
       messages: [
         {
           role: 'system',
-          content: `You are a documentation assistant that can ONLY use the provided documentation.
-
-          CRITICAL RULES:
-          - You MUST use ONLY the exact text from the documentation provided
-          - Do NOT add any information not explicitly stated in the documentation
-          - Do NOT use general knowledge about testing, development, or any other topics
-          - Quote directly from the documentation whenever possible
-          - If asked about something not in the documentation, say "This information is not available in the provided documentation"
-
-          RESPONSE FORMAT:
-          - Start with "Based on the provided documentation:"
-          - Use only facts stated in the documentation
-          - Quote specific phrases when relevant
-          - Reference the article name(s) mentioned`,
+          content: systemPrompt,
         },
+        ...recentHistory,
         {
           role: 'user',
           content: context,
         },
       ],
-      max_tokens: 700,
-      temperature: 0.3,
-    });
+      max_tokens: profile.maxTokens,
+      temperature: profile.temperature,
+      top_p: profile.topP,
+      presence_penalty: profile.presencePenalty,
+      frequency_penalty: profile.frequencyPenalty,
+    };
+
+    // Optional check that the answer only says what the chunks say. Word overlap can't
+    // compare an answer with documentation in another language, so that case goes unchecked.
+    let groundingOptions = getGroundingOptions();
+    if (groundingOptions && groundingOptions.method === 'lexical' && relevantChunks.some(chunk => chunk.language && chunk.language !== language.language)) {
+      console.log(`⏭️ Skipping lexical grounding check for a ${language.language} answer from ${Object.keys(language.chunkLanguages).join(', ')} documentation`);
+      groundingOptions = null;
+    }
+    const checkAnswer = async (answer: string) => {
+      const grounding = groundingOptions ? await checkGrounding(answer, relevantChunks, groundingOptions) : null;
+      // Unsupported sentences are either still in the answer or were taken out of it
+      const unsupported = grounding ? grounding.claims.filter(claim => !claim.supported).map(claim => claim.text) : [];
+      const groundingFields = grounding ? {
+        groundingScore: grounding.score,
+        [groundingOptions!.removeUnsupported ? 'removedClaims' : 'unsupportedClaims']: unsupported,
+      } : {};
+
+      if (grounding && grounding.score < groundingOptions!.minScore) {
+        console.log(`🚫 Grounding score ${grounding.score.toFixed(2)} is below ${groundingOptions!.minScore}, answering with the fallback`);
+        return {
+          answerable: false,
+          answer: fallbackText,
+          sources: [],
+          suggestedArticles: suggestArticles(relevantChunks),
+          relatedArticles: [],
+          followUpQuestions: [],
+          citations: [],
+          ...groundingFields,
+        };
+      }
 
+      const finalAnswer = grounding ? grounding.answer : answer;
+      return {
+        answerable: true,
+        answer: finalAnswer,
+        sources,
+        relatedArticles,
+        // Questions the same documentation answers, for the user to click next
+        followUpQuestions: await followUps,
+        // Which context chunk each [n] marker in the answer refers to
+        citations: extractCitations(finalAnswer, relevantChunks),
+        ...groundingFields,
+      };
+    };
+
+    const finishAnswer = async (answer: string) => {
+      const result = await checkAnswer(answer);
+      await Promise.all([
+        saveAnswer(result.answer, result.answerable, relevantResults, profile.model),
+        saveTurns(result.answer, result.answerable, 'suggestedArticles' in result ? result.suggestedArticles : result.sources, result.citations),
+        saveQueryLog(result.answerable ? answeredOutcome(relevantResults) : 'ungrounded', relevantResults, result.citations),
+      ]);
+      return { answerId, conversationId: conversation.id, ...result };
+    };
+
+    if (streaming) {
+      // Sources go first so the UI can show them while the answer is written; `done`
+      // repeats the answer in case the grounding check changed it. With the check on,
+      // nothing is sent before it runs, so unsupported sentences are never shown.
+      const body = new PassThrough();
+      body.write(sseEvent('sources', { answerable: true, sources, relatedArticles, conversationId: conversation.id, rewrittenQuery: searchQuery, tenant: tenant.id, profile: profile.name, language }));
+      streamCompletion(params, body, async answer => ({
+        ...await finishAnswer(answer),
+        relevantChunks: relevantChunks.length,
+        rewrittenQuery: searchQuery,
+      }), !groundingOptions);
+      return {
+        statusCode: 200,
+        headers: streamHeaders,
+        body,
+      };
+    }
+
+    const completion = await openai.chat.completions.create(params);
     const answer = completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
 
     return {
       statusCode: 200,
       headers,
       body: JSON.stringify({
-        answer,
-        sources,
+        ...await finishAnswer(answer),
         relevantChunks: relevantChunks.length,
+        rewrittenQuery: searchQuery,
+        tenant: tenant.id,
+        profile: profile.name,
+        language,
+        usage: completion.usage || null,
+        ...(debug ? { debug: { similarityCutoff: getSimilarityCutoff(), results: describeResults(results), prompt: params } } : {}),
       }),
     };
   } catch (error) {
@@ -143,4 +594,4 @@ I can still try to help with general questions about your platform or documentat
       }),
     };
   }
-};
+});
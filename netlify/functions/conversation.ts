@@ -0,0 +1,95 @@
+import { Handler } from '@netlify/functions';
+import { formatTranscript, getConversation, TRANSCRIPT_FORMATS, TranscriptFormat } from './shared/conversationStore';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+};
+
+// A stored conversation, to resume it (JSON) or export its transcript
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // Only allow GET requests
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+    const tenant = parseTenant(params.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    const format = (params.format || 'json') as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}` }),
+      };
+    }
+
+    if (!params.id) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'id is required' }),
+      };
+    }
+
+    const conversation = await getConversation(params.id, tenant.id);
+    if (!conversation) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: `Unknown or expired conversation: ${params.id}` }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: { ...headers, 'Content-Type': CONTENT_TYPES[format] },
+      body: formatTranscript(conversation, format),
+    };
+  } catch (error) {
+    console.error('Error in conversation function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,41 @@
+import { schedule } from '@netlify/functions';
+import { purgeExpiredQueryLog } from './shared/analytics';
+import { getRetentionDays, purgeExpiredConversations } from './shared/conversationStore';
+import { getFeedbackRetentionDays, purgeExpiredAnswers, purgeExpiredFeedback } from './shared/feedback';
+import { connectStorage } from './shared/storage';
+import { getTenants } from './shared/tenants';
+
+/**
+ * Scheduled function that deletes every tenant's conversations older than
+ * CONVERSATION_RETENTION_DAYS, with the answers given in them and questions logged over
+ * the same period, and ratings older than FEEDBACK_RETENTION_DAYS. Expired conversations
+ * and answers are also refused when requested, so the daily run only bounds how long
+ * they stay in storage.
+ */
+export const handler = schedule('@daily', async (event, context) => {
+  connectStorage(event);
+
+  try {
+    const days = getRetentionDays();
+    const feedbackDays = getFeedbackRetentionDays();
+    if (days === null) {
+      console.log('🗂️ CONVERSATION_RETENTION_DAYS not set, keeping all conversations, answers and logged questions');
+    }
+
+    for (const tenant of Array.from(getTenants().keys())) {
+      if (days !== null) {
+        const deleted = await purgeExpiredConversations(tenant);
+        // Answers go once their conversation has
+        const deletedAnswers = await purgeExpiredAnswers(tenant);
+        const deletedQueries = await purgeExpiredQueryLog(tenant);
+        console.log(`🧹 Deleted ${deleted} conversations older than ${days} days, ${deletedAnswers} of their answers and ${deletedQueries} query log keys for tenant ${tenant}`);
+      }
+      const deletedRatings = await purgeExpiredFeedback(tenant);
+      console.log(`🧹 Deleted ${deletedRatings} ratings older than ${feedbackDays} days for tenant ${tenant}`);
+    }
+    return { statusCode: 200 };
+  } catch (error) {
+    console.error('Error cleaning up conversations:', error);
+    return { statusCode: 500 };
+  }
+});
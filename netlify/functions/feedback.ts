@@ -0,0 +1,127 @@
+import { Handler } from '@netlify/functions';
+import { loadIndex } from './shared/articleStore';
+import { checkAdminAccess } from './shared/admin';
+import { getAnswer, listWorstRatedAnswers, parseFeedback, saveFeedback } from './shared/feedback';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// POST rates an answer; GET lists the worst-rated answers and needs the admin key
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const denied = checkAdminAccess(event);
+      if (denied) {
+        return {
+          statusCode: denied.statusCode,
+          headers,
+          body: JSON.stringify({ error: denied.error }),
+        };
+      }
+
+      const params = event.queryStringParameters || {};
+      const tenant = parseTenant(params.tenant);
+      if (typeof tenant === 'string') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: tenant }),
+        };
+      }
+
+      const limit = params.limit === undefined ? DEFAULT_LIST_LIMIT : Number(params.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: `limit must be a whole number from 1 to ${MAX_LIST_LIMIT}` }),
+        };
+      }
+
+      // Chunk text comes from the current index
+      await loadIndex(tenant.id);
+      const { totals, answers } = await listWorstRatedAnswers(tenant.id, limit);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ tenant: tenant.id, totals, answers }),
+      };
+    }
+
+    const body = JSON.parse(event.body || '{}');
+    const tenant = parseTenant(body.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    const feedback = parseFeedback(body);
+    if (typeof feedback === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: feedback }),
+      };
+    }
+
+    const answer = await getAnswer(feedback.answerId, tenant.id);
+    if (!answer) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: `Unknown answer: ${feedback.answerId}` }),
+      };
+    }
+
+    const rated = await saveFeedback(answer, feedback.rating, feedback.comment);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ answerId: rated.id, feedback: rated.feedback }),
+    };
+  } catch (error) {
+    console.error('Error in feedback function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
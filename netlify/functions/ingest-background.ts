@@ -0,0 +1,55 @@
+import { BackgroundHandler } from '@netlify/functions';
+import {
+  getCurrentJob,
+  isJobStale,
+  runJob,
+  triggerBackgroundIngest,
+  INGEST_TIME_BUDGET_MS,
+} from './shared/ingestJob';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+/**
+ * Background function that works through the current ingest job.
+ * Netlify returns 202 to the caller straight away and lets this run for up to 15 minutes;
+ * if the job isn't done by then it saves its cursor and re-invokes itself to continue.
+ */
+export const handler: BackgroundHandler = async (event, context) => {
+  connectStorage(event);
+
+  const deadline = Date.now() + INGEST_TIME_BUDGET_MS;
+
+  try {
+    const tenant = parseTenant(JSON.parse(event.body || '{}').tenant);
+    if (typeof tenant === 'string') {
+      console.error(`Ingest background: ${tenant}`);
+      return;
+    }
+
+    const job = await getCurrentJob(tenant.id);
+    if (!job) {
+      console.log(`No ingest job to run for tenant ${tenant.id}`);
+      return;
+    }
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      console.log(`Ingest job ${job.id} already ${job.status}`);
+      return;
+    }
+
+    if (job.status === 'running' && !isJobStale(job)) {
+      console.log(`Ingest job ${job.id} is already being processed by another runner`);
+      return;
+    }
+
+    console.log(`🔄 Running ingest job ${job.id} from cursor ${JSON.stringify(job.cursor)}`);
+    const result = await runJob(job, deadline);
+
+    if (result.status === 'paused') {
+      await triggerBackgroundIngest(event, tenant.id);
+      console.log(`🔁 Re-invoked background ingest to continue job ${job.id}`);
+    }
+  } catch (error) {
+    console.error('Error in ingest background function:', error);
+  }
+};
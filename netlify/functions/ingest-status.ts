@@ -0,0 +1,68 @@
+import { Handler } from '@netlify/functions';
+import { getStorageStats, loadIndex } from './shared/articleStore';
+import { getCurrentJob, getJobStatusReport } from './shared/ingestJob';
+import { connectStorage } from './shared/storage';
+import { parseTenant } from './shared/tenants';
+
+export const handler: Handler = async (event, context) => {
+  connectStorage(event);
+
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    };
+  }
+
+  // Only allow GET requests
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const tenant = parseTenant(event.queryStringParameters?.tenant);
+    if (typeof tenant === 'string') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: tenant }),
+      };
+    }
+
+    const job = await getCurrentJob(tenant.id);
+    await loadIndex(tenant.id);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        job: job ? getJobStatusReport(job) : null,
+        storageStats: getStorageStats(tenant.id),
+      }),
+    };
+  } catch (error) {
+    console.error('Error in ingest status function:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+import { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import axios from 'axios';
+import { handler } from './ingest';
+import { createJob, getCurrentJob, queueJob } from './shared/ingestJob';
+import * as tenants from './shared/tenants';
+import { createTempStore, quietLogs, TempStore, testSource } from './shared/testing';
+
+let store: TempStore;
+let trigger: jest.SpyInstance;
+
+async function post(body: object, authorization?: string): Promise<{ statusCode: number; body: unknown }> {
+  const event = { httpMethod: 'POST', headers: authorization ? { authorization } : {}, body: JSON.stringify(body) } as unknown as HandlerEvent;
+  const response = (await handler(event, {} as HandlerContext)) as HandlerResponse;
+  return { statusCode: response.statusCode, body: JSON.parse(response.body || '{}') };
+}
+
+beforeEach(async () => {
+  quietLogs();
+  store = await createTempStore('ingest-handler');
+  tenants.setTenants(new Map([['default', { id: 'default', name: 'Docs', sources: [{ type: 'jsonl', id: 'docs', path: 'docs.jsonl' }], profiles: {} }]]));
+  jest.spyOn(tenants, 'getTenantSources').mockReturnValue([testSource(3)]);
+  trigger = jest.spyOn(axios, 'post').mockResolvedValue({ status: 202 });
+  process.env.ADMIN_API_KEY = 'secret';
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  tenants.setTenants(null);
+  delete process.env.ADMIN_API_KEY;
+  await store.remove();
+});
+
+test('anyone may start or resume an ingest', async () => {
+  const started = await post({});
+  expect(started).toMatchObject({ statusCode: 202, body: { message: 'Ingestion started' } });
+
+  const job = (await getCurrentJob())!;
+  job.status = 'paused';
+  await queueJob(job);
+  expect(await post({})).toMatchObject({ statusCode: 202, body: { message: 'Ingestion resumed', job: { id: job.id } } });
+  expect(trigger).toHaveBeenCalledTimes(2);
+});
+
+test.each(['restart', 'refetch'])('%s needs the admin key', async option => {
+  expect(await post({ [option]: true })).toMatchObject({ statusCode: 401, body: { error: 'Admin API key required' } });
+  expect(await post({ [option]: true }, 'Bearer wrong')).toMatchObject({ statusCode: 401 });
+
+  delete process.env.ADMIN_API_KEY;
+  expect((await post({ [option]: true }, 'Bearer secret')).statusCode).toBe(403);
+  expect(await getCurrentJob()).toBeNull();
+  expect(trigger).not.toHaveBeenCalled();
+
+  process.env.ADMIN_API_KEY = 'secret';
+  expect(await post({ [option]: true }, 'Bearer secret')).toMatchObject({ statusCode: 202, body: { message: 'Ingestion started' } });
+  expect((await getCurrentJob())!.refetch).toBe(option === 'refetch');
+});
+
+test('refuses to restart a job that is still running', async () => {
+  // As a runner leaves it while it works
+  const running = await createJob();
+  await store.storage.setJSON('ingest-jobs/current.json', { ...running, status: 'running' });
+
+  expect(await post({ restart: true }, 'Bearer secret')).toMatchObject({ statusCode: 409, body: { job: { id: running.id } } });
+  expect(await post({})).toMatchObject({ statusCode: 202, body: { message: 'Ingestion already in progress' } });
+  expect(trigger).not.toHaveBeenCalled();
+});
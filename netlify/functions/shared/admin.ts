@@ -0,0 +1,36 @@
+import { HandlerEvent } from '@netlify/functions';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Whether a request may use admin-only queries, which need an
+ * `Authorization: Bearer <ADMIN_API_KEY>` header. Returns the status and error to
+ * respond with when it may not, or null when it may.
+ */
+export function checkAdminAccess(event: HandlerEvent): { statusCode: number; error: string } | null {
+  const apiKey = process.env.ADMIN_API_KEY;
+  // Without a key every admin query stays off rather than open to anyone
+  if (!apiKey) {
+    return { statusCode: 403, error: 'Admin queries are disabled: set ADMIN_API_KEY to enable them' };
+  }
+
+  const header = event.headers.authorization || event.headers.Authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  const expected = Buffer.from(apiKey);
+  const given = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { statusCode: 401, error: 'Admin API key required' };
+  }
+  return null;
+}
+
+/**
+ * A whole number query parameter from 1 to `max`; returns an error message if it's out of range
+ */
+export function parseCount(value: string | undefined, name: string, fallback: number, max: number = Infinity): number | string {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 1 || parsed > max) {
+    return max === Infinity ? `${name} must be a positive whole number` : `${name} must be a whole number from 1 to ${max}`;
+  }
+  return parsed;
+}
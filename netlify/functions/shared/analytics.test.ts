@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+import { clusterQuestions, purgeExpiredQueryLog, readQueryLog } from './analytics';
+import { createLocalEmbeddingProvider, EmbeddingProvider, setEmbeddingProvider } from './embeddings';
+import { StorageBackend } from './storage';
+import { tenantStorageKey } from './tenants';
+import { createTempStore, quietLogs, TempStore, testQueryLogEntry } from './testing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Question n embeds as the nth unit vector, so no two questions are alike; cached like a
+// remote model's output
+function oneHotProvider(dimensions: number): EmbeddingProvider {
+  return {
+    ...createLocalEmbeddingProvider(),
+    model: 'one-hot',
+    cacheable: true,
+    async embed(texts) {
+      return texts.map(text => Array.from({ length: dimensions }, (_, d) => (d === Number(text.split(' ')[1]) ? 1 : 0)));
+    },
+  };
+}
+
+// Stored the way logQuery stores it, but at a chosen time
+async function logAt(storage: StorageBackend, id: string, createdAt: string): Promise<void> {
+  const key = tenantStorageKey('default', `query-log/${createdAt.slice(0, 10)}/${createdAt}-${id}.json`);
+  await storage.setJSON(key, testQueryLogEntry(id, `Question ${id}`, createdAt));
+}
+
+let store: TempStore;
+let storage: StorageBackend;
+
+beforeEach(async () => {
+  quietLogs();
+  store = await createTempStore('analytics');
+  storage = store.storage;
+  setEmbeddingProvider(createLocalEmbeddingProvider());
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  setEmbeddingProvider(null);
+  delete process.env.CONVERSATION_RETENTION_DAYS;
+  await store.remove();
+});
+
+describe('readQueryLog', () => {
+  test('gathers finished days into one blob and leaves today as it is', async () => {
+    const yesterday = new Date(Date.now() - DAY_MS).toISOString();
+    const now = new Date().toISOString();
+    await logAt(storage, 'y1', yesterday);
+    await logAt(storage, 'y2', yesterday);
+    await logAt(storage, 't1', now);
+
+    expect((await readQueryLog()).map(logged => logged.id)).toEqual(['y1', 'y2', 't1']);
+    expect(await storage.list(tenantStorageKey('default', 'query-log/'))).toEqual([
+      tenantStorageKey('default', `query-log/${yesterday.slice(0, 10)}.json`),
+      tenantStorageKey('default', `query-log/${now.slice(0, 10)}/${now}-t1.json`),
+    ]);
+
+    const getJSON = jest.spyOn(storage, 'getJSON');
+    expect((await readQueryLog()).map(logged => logged.id)).toEqual(['y1', 'y2', 't1']);
+    expect(getJSON).toHaveBeenCalledTimes(2);
+  });
+
+  test('adds entries logged after their day was gathered', async () => {
+    const yesterday = new Date(Date.now() - DAY_MS).toISOString();
+    await logAt(storage, 'y1', yesterday);
+    await readQueryLog();
+    await logAt(storage, 'late', yesterday);
+
+    expect((await readQueryLog()).map(logged => logged.id).sort()).toEqual(['late', 'y1']);
+    expect(await storage.list(tenantStorageKey('default', 'query-log/'))).toHaveLength(1);
+  });
+
+  test('skips days before the window', async () => {
+    await logAt(storage, 'old', new Date(Date.now() - 10 * DAY_MS).toISOString());
+    await logAt(storage, 'recent', new Date(Date.now() - DAY_MS).toISOString());
+
+    expect((await readQueryLog('default', 7)).map(logged => logged.id)).toEqual(['recent']);
+  });
+});
+
+describe('purgeExpiredQueryLog', () => {
+  test('deletes whole days past the conversation retention period', async () => {
+    await logAt(storage, 'old', new Date(Date.now() - 10 * DAY_MS).toISOString());
+    await logAt(storage, 'recent', new Date(Date.now() - DAY_MS).toISOString());
+    // Gathers the finished days, so both key layouts are covered
+    await readQueryLog('default', 3);
+
+    expect(await purgeExpiredQueryLog()).toBe(0);
+
+    process.env.CONVERSATION_RETENTION_DAYS = '7';
+    expect(await purgeExpiredQueryLog()).toBe(1);
+    expect((await readQueryLog()).map(logged => logged.id)).toEqual(['recent']);
+  });
+});
+
+describe('clusterQuestions', () => {
+  test('groups rewordings of a question apart from other questions', async () => {
+    const createdAt = new Date().toISOString();
+    const { method, clusters } = await clusterQuestions([
+      testQueryLogEntry('1', 'How do I export invoices?', createdAt),
+      testQueryLogEntry('2', 'how do I export invoices', createdAt),
+      testQueryLogEntry('3', 'Can I change my billing currency?', createdAt),
+      testQueryLogEntry('4', 'How do I export invoices', createdAt),
+    ]);
+
+    expect(method).toBe('embedding');
+    expect(clusters.map(cluster => cluster.count)).toEqual([3, 1]);
+  });
+
+  test('only groups the most recent questions', async () => {
+    const start = Date.now() - DAY_MS;
+    const entries = Array.from({ length: 2001 }, (_, i) => testQueryLogEntry(String(i), 'How do I export invoices?', new Date(start + i).toISOString()));
+
+    const { clusters } = await clusterQuestions(entries);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].count).toBe(2000);
+  });
+
+  test('caps the number of groups and counts the questions left over', async () => {
+    setEmbeddingProvider(oneHotProvider(256));
+    const createdAt = new Date().toISOString();
+    const entries = Array.from({ length: 250 }, (_, i) => testQueryLogEntry(String(i), `Question ${i}`, createdAt));
+
+    const { clusters, unclustered } = await clusterQuestions(entries);
+    expect(clusters).toHaveLength(200);
+    expect(unclustered).toBe(50);
+  });
+
+  test('saves the embeddings of new questions to the cache', async () => {
+    setEmbeddingProvider(oneHotProvider(8));
+    // Worded unlike the other tests' questions, which are already in the in-memory cache
+    await clusterQuestions([testQueryLogEntry('1', 'Question 1 about caching', new Date().toISOString())]);
+
+    expect((await storage.list('embedding-cache/')).some(key => key.includes('one-hot'))).toBe(true);
+  });
+});
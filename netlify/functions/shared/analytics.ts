@@ -0,0 +1,346 @@
+import { randomUUID } from 'crypto';
+import { getAllArticles, getSimilarityCutoff, SearchResult } from './articleStore';
+import { getRetentionDays } from './conversationStore';
+import { flushEmbeddingCache } from './embeddingCache';
+import { generateEmbeddings, getEmbeddingProvider } from './embeddings';
+import { normalise } from './hnsw';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, tenantStorageKey } from './tenants';
+
+/**
+ * How a question was handled: answered from the docs, answered although the best match
+ * was weak, refused because nothing was relevant, or refused by the grounding check
+ */
+export type QueryOutcome = 'answered' | 'low-confidence' | 'unanswered' | 'ungrounded';
+
+export interface QueryLogEntry {
+  id: string;
+  tenant: string;
+  query: string;
+  searchQuery: string;
+  outcome: QueryOutcome;
+  // Best scores among the retrieved chunks, relevant or not; null without any
+  topSimilarity: number | null;
+  topRerankScore: number | null;
+  relevantChunks: number;
+  // Articles the answer was built from, or suggested when there was no answer
+  sources: Array<{ articleId: string; name: string; url: string }>;
+  // Articles the answer cited with [n] markers
+  citedArticleIds: string[];
+  answerId: string;
+  language: string;
+  createdAt: string;
+}
+
+export interface QuestionCluster {
+  // The question closest to the middle of the cluster
+  question: string;
+  count: number;
+  // Up to MAX_CLUSTER_EXAMPLES other wordings, most recent first
+  examples: string[];
+  lastAskedAt: string;
+}
+
+export interface ArticleCitationCount {
+  articleId: string;
+  name: string;
+  url: string;
+  citations: number;
+}
+
+const QUERY_LOG_PREFIX = 'query-log/';
+const MAX_CLUSTER_EXAMPLES = 5;
+// Clustering compares every question with every group, so both are bounded: the most
+// recent questions per report list, and groups well beyond what a report lists
+const MAX_CLUSTERED_QUESTIONS = 2000;
+const MAX_QUESTION_GROUPS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Answers whose best chunk is less similar than this are flagged low-confidence; by default
+// that's the relevance cutoff, i.e. answers that only keyword matching or the reranker let through
+function lowConfidenceSimilarity(): number {
+  const value = Number(process.env.LOW_CONFIDENCE_SIMILARITY);
+  return process.env.LOW_CONFIDENCE_SIMILARITY && !isNaN(value) ? value : getSimilarityCutoff();
+}
+
+// Questions this similar ask the same thing. Each model has its own similarity range, so
+// by default it's halfway between the relevance cutoff and an exact match.
+function clusterSimilarity(): number {
+  const value = Number(process.env.GAP_CLUSTER_SIMILARITY);
+  if (process.env.GAP_CLUSTER_SIMILARITY && !isNaN(value)) return value;
+  const cutoff = getSimilarityCutoff();
+  return cutoff + (1 - cutoff) / 2;
+}
+
+/**
+ * Classify an answered question by how well its best chunk matched
+ */
+export function answeredOutcome(results: SearchResult[]): QueryOutcome {
+  const top = Math.max(...results.map(result => result.similarity ?? -Infinity));
+  return top >= lowConfidenceSimilarity() ? 'answered' : 'low-confidence';
+}
+
+/**
+ * Best similarity and rerank scores among search results
+ */
+export function topScores(results: SearchResult[]): { topSimilarity: number | null; topRerankScore: number | null } {
+  const similarities = results.map(result => result.similarity).filter((score): score is number => score !== undefined);
+  const rerankScores = results.map(result => result.rerankScore).filter((score): score is number => score !== undefined);
+  return {
+    topSimilarity: similarities.length > 0 ? Math.max(...similarities) : null,
+    topRerankScore: rerankScores.length > 0 ? Math.max(...rerankScores) : null,
+  };
+}
+
+/**
+ * Record a handled question. Entries are stored one per key under the day they were
+ * asked, so concurrent requests never overwrite each other and reports read only the
+ * days they cover.
+ */
+export async function logQuery(entry: Omit<QueryLogEntry, 'id' | 'createdAt'>): Promise<void> {
+  const createdAt = new Date().toISOString();
+  const id = randomUUID();
+  const key = tenantStorageKey(entry.tenant, `${QUERY_LOG_PREFIX}${createdAt.slice(0, 10)}/${createdAt}-${id}.json`);
+  await getStorageBackend().setJSON(key, { id, ...entry, createdAt });
+  console.log(`📈 Logged ${entry.outcome} query (top similarity ${entry.topSimilarity === null ? 'none' : entry.topSimilarity.toFixed(3)})`);
+}
+
+// One day's entries. Once the day is over they're gathered into query-log/<day>.json, so
+// later reports read the day with one request rather than one per question.
+async function readQueryLogDay(prefix: string, day: string, keys: string[], finished: boolean): Promise<QueryLogEntry[]> {
+  const storage = getStorageBackend();
+  const dayKey = `${prefix}${day}.json`;
+  const gathered = keys.includes(dayKey) ? (await storage.getJSON<QueryLogEntry[]>(dayKey)) || [] : [];
+  const entryKeys = keys.filter(key => key !== dayKey);
+  if (entryKeys.length === 0) return gathered;
+
+  // Entries logged after the day was gathered, e.g. by a request running over midnight
+  const seen = new Set(gathered.map(entry => entry.id));
+  const logged = (await Promise.all(entryKeys.map(key => storage.getJSON<QueryLogEntry>(key))))
+    .filter((entry): entry is QueryLogEntry => entry !== null && !seen.has(entry.id));
+  const entries = [...gathered, ...logged];
+
+  if (finished) {
+    await storage.setJSON(dayKey, entries);
+    await Promise.all(entryKeys.map(key => storage.delete(key)));
+    console.log(`🗜️ Gathered ${logged.length} query log entries for ${day}`);
+  }
+  return entries;
+}
+
+/**
+ * A tenant's logged questions from the last `days` days, oldest first
+ */
+export async function readQueryLog(tenant: string = DEFAULT_TENANT_ID, days: number = 30): Promise<QueryLogEntry[]> {
+  const storage = getStorageBackend();
+  const prefix = tenantStorageKey(tenant, QUERY_LOG_PREFIX);
+  const since = new Date(Date.now() - days * DAY_MS).toISOString();
+  const today = new Date().toISOString().slice(0, 10);
+
+  // Keys start with the day, so whole days before the window are skipped without reading them
+  const keysByDay = new Map<string, string[]>();
+  (await storage.list(prefix)).forEach(key => {
+    const day = key.slice(prefix.length, prefix.length + 10);
+    if (day < since.slice(0, 10)) return;
+    const keys = keysByDay.get(day);
+    if (keys) keys.push(key);
+    else keysByDay.set(day, [key]);
+  });
+
+  const perDay = await Promise.all(Array.from(keysByDay.entries()).map(([day, keys]) => readQueryLogDay(prefix, day, keys, day < today)));
+  return perDay
+    .flat()
+    .filter(entry => entry.createdAt >= since)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Delete a tenant's logged questions from days older than CONVERSATION_RETENTION_DAYS, so
+ * questions don't outlive the conversations they were asked in; returns how many keys
+ * were deleted. Keys start with the day, so nothing is read.
+ */
+export async function purgeExpiredQueryLog(tenant: string = DEFAULT_TENANT_ID): Promise<number> {
+  const days = getRetentionDays();
+  if (days === null) return 0;
+
+  const storage = getStorageBackend();
+  const prefix = tenantStorageKey(tenant, QUERY_LOG_PREFIX);
+  // Whole days only: a day is kept until all of it is past the retention period
+  const cutoff = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+  const expired = (await storage.list(prefix)).filter(key => key.slice(prefix.length, prefix.length + 10) < cutoff);
+  for (const key of expired) {
+    await storage.delete(key);
+  }
+  return expired.length;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normaliseQuestion(question: string): string {
+  return question.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function summarise(members: Array<{ entry: QueryLogEntry; vector?: Float32Array }>, centroid?: Float32Array): QuestionCluster {
+  let central = members[0];
+  if (centroid) {
+    let best = -Infinity;
+    members.forEach(member => {
+      const similarity = dot(member.vector!, centroid);
+      if (similarity > best) {
+        best = similarity;
+        central = member;
+      }
+    });
+  }
+
+  const seen = new Set([normaliseQuestion(central.entry.query)]);
+  const examples: string[] = [];
+  for (const { entry } of members.slice().reverse()) {
+    const key = normaliseQuestion(entry.query);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    examples.push(entry.query);
+    if (examples.length === MAX_CLUSTER_EXAMPLES) break;
+  }
+
+  return {
+    question: central.entry.query,
+    count: members.length,
+    examples,
+    lastAskedAt: members[members.length - 1].entry.createdAt,
+  };
+}
+
+/**
+ * Group questions that ask the same thing, largest group first. Each question joins the
+ * group whose centre it's most similar to, if that clears the cluster threshold, or
+ * starts a new one. Identical wording is grouped if the questions can't be embedded.
+ * Only the most recent MAX_CLUSTERED_QUESTIONS questions are grouped, into at most
+ * MAX_QUESTION_GROUPS groups; `unclustered` counts questions that fit no group after that.
+ */
+export async function clusterQuestions(logged: QueryLogEntry[]): Promise<{ method: 'embedding' | 'exact'; clusters: QuestionCluster[]; unclustered: number }> {
+  if (logged.length === 0) return { method: 'embedding', clusters: [], unclustered: 0 };
+  const entries = logged.slice(-MAX_CLUSTERED_QUESTIONS);
+
+  let vectors: Float32Array[];
+  try {
+    // Embedded with the search model; questions asked before come from the embedding cache
+    vectors = (await generateEmbeddings(entries.map(entry => entry.searchQuery || entry.query))).map(vector => normalise(vector));
+    await flushEmbeddingCache();
+  } catch (error) {
+    console.error('Embedding questions failed, grouping identical questions only:', error);
+    const groups = new Map<string, QueryLogEntry[]>();
+    entries.forEach(entry => {
+      const key = normaliseQuestion(entry.query);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+    const clusters = Array.from(groups.values()).map(group => summarise(group.map(entry => ({ entry }))));
+    return { method: 'exact', clusters: clusters.sort((a, b) => b.count - a.count), unclustered: 0 };
+  }
+
+  const threshold = clusterSimilarity();
+  // Each group keeps its normalised centre, updated only when a question joins it
+  const groups: Array<{ sum: Float32Array; centroid: Float32Array; members: Array<{ entry: QueryLogEntry; vector: Float32Array }> }> = [];
+  let unclustered = 0;
+  entries.forEach((entry, i) => {
+    const vector = vectors[i];
+    let best: typeof groups[number] | null = null;
+    let bestSimilarity = threshold;
+    for (const group of groups) {
+      const similarity = dot(vector, group.centroid);
+      if (similarity >= bestSimilarity) {
+        best = group;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best) {
+      const { sum } = best;
+      vector.forEach((value, d) => {
+        sum[d] += value;
+      });
+      best.centroid = normalise(sum);
+      best.members.push({ entry, vector });
+    } else if (groups.length < MAX_QUESTION_GROUPS) {
+      groups.push({ sum: Float32Array.from(vector), centroid: vector, members: [{ entry, vector }] });
+    } else {
+      unclustered++;
+    }
+  });
+
+  const clusters = groups.map(group => summarise(group.members, group.centroid));
+  console.log(`🧩 Grouped ${entries.length - unclustered} of ${logged.length} questions into ${clusters.length} clusters with ${getEmbeddingProvider().model}`);
+  return { method: 'embedding', clusters: clusters.sort((a, b) => b.count - a.count), unclustered };
+}
+
+/**
+ * Citations per article over logged answers; articles in the index that were never cited
+ * count as zero
+ */
+export function countCitations(entries: QueryLogEntry[], tenant: string = DEFAULT_TENANT_ID): ArticleCitationCount[] {
+  const counts = new Map<string, ArticleCitationCount>();
+  getAllArticles(tenant).forEach(article => {
+    counts.set(article.id, { articleId: article.id, name: article.name, url: article.url, citations: 0 });
+  });
+
+  entries.forEach(entry => {
+    entry.citedArticleIds.forEach(articleId => {
+      let count = counts.get(articleId);
+      // Cited before being removed from the index
+      if (!count) {
+        const source = entry.sources.find(candidate => candidate.articleId === articleId);
+        count = { articleId, name: source ? source.name : articleId, url: source ? source.url : '', citations: 0 };
+        counts.set(articleId, count);
+      }
+      count.citations++;
+    });
+  });
+  return Array.from(counts.values());
+}
+
+/**
+ * What the docs don't cover: unanswered and low-confidence questions grouped by meaning
+ * and ranked by how often they're asked, plus the most and least cited articles
+ */
+export async function buildContentGapReport(tenant: string = DEFAULT_TENANT_ID, days: number = 30, limit: number = 20) {
+  const entries = await readQueryLog(tenant, days);
+  const byOutcome = (...outcomes: QueryOutcome[]) => entries.filter(entry => outcomes.includes(entry.outcome));
+
+  const unanswered = await clusterQuestions(byOutcome('unanswered', 'ungrounded'));
+  const lowConfidence = await clusterQuestions(byOutcome('low-confidence'));
+
+  const citations = countCitations(entries, tenant);
+  const mostCited = citations
+    .filter(article => article.citations > 0)
+    .sort((a, b) => b.citations - a.citations || a.name.localeCompare(b.name))
+    .slice(0, limit);
+  const leastCited = citations
+    .sort((a, b) => a.citations - b.citations || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+  return {
+    tenant,
+    days,
+    totals: {
+      queries: entries.length,
+      answered: byOutcome('answered').length,
+      lowConfidence: byOutcome('low-confidence').length,
+      unanswered: byOutcome('unanswered').length,
+      ungrounded: byOutcome('ungrounded').length,
+    },
+    clustering: unanswered.method === 'exact' || lowConfidence.method === 'exact' ? 'exact' : 'embedding',
+    unanswered: unanswered.clusters.slice(0, limit),
+    lowConfidence: lowConfidence.clusters.slice(0, limit),
+    // Questions left out of the groups above by the clustering caps
+    unclustered: {
+      unanswered: unanswered.unclustered + Math.max(0, byOutcome('unanswered', 'ungrounded').length - MAX_CLUSTERED_QUESTIONS),
+      lowConfidence: lowConfidence.unclustered + Math.max(0, byOutcome('low-confidence').length - MAX_CLUSTERED_QUESTIONS),
+    },
+    mostCited,
+    leastCited,
+  };
+}
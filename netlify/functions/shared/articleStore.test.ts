@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import {
+  clearArticles,
+  getAllArticles,
+  getArticle,
+  getChunkEmbedding,
+  purgeIndex,
+  searchChunks,
+  storeArticle,
+  updateArticleMetadata,
+} from './articleStore';
+import { createLocalEmbeddingProvider, EmbeddingProvider, setEmbeddingProvider } from './embeddings';
+import { createFileBackend } from './storage';
+import { createTempStore, quietLogs, TempStore, testArticle } from './testing';
+
+// Local hashing vectors under a different model name, so only the model differs
+function providerFor(model: string): EmbeddingProvider {
+  return { ...createLocalEmbeddingProvider(), model };
+}
+
+const SEMANTIC_ONLY = { weights: { lexical: 0, semantic: 1 }, rerank: false };
+
+describe('searching an index embedded with another model', () => {
+  let tempStore: TempStore;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tempStore = await createTempStore('store');
+    warnSpy = quietLogs().warn;
+
+    setEmbeddingProvider(providerFor('model-a'));
+    await storeArticle(testArticle('export', 'Exporting invoices', 'Invoices can be exported to CSV from the billing page.'));
+  });
+
+  afterEach(async () => {
+    clearArticles();
+    setEmbeddingProvider(null);
+    jest.restoreAllMocks();
+    await tempStore.remove();
+  });
+
+  test('vectors from the active model are searched', async () => {
+    const results = await searchChunks('export invoices to csv', 5, SEMANTIC_ONLY);
+
+    expect(results.map(result => result.chunk.articleId)).toEqual(['export']);
+    expect(results[0].similarity).toBeGreaterThan(0);
+  });
+
+  test('vectors from another model are never compared with the query', async () => {
+    setEmbeddingProvider(providerFor('model-b'));
+
+    expect(await searchChunks('export invoices to csv', 5, SEMANTIC_ONLY)).toEqual([]);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring 1 chunks embedded with a different model than model-b'));
+    expect(getChunkEmbedding(getArticle('export')!.chunks[0])).toEqual({ status: 'stale', model: 'model-a', dimensions: 512 });
+  });
+
+  test('a stored index loaded by a new instance under another model stays unsearchable', async () => {
+    // A fresh copy of the modules stands in for a cold function instance
+    let store!: typeof import('./articleStore');
+    jest.isolateModules(() => {
+      store = require('./articleStore');
+      require('./storage').setStorageBackend(createFileBackend(tempStore.rootDir));
+      require('./embeddings').setEmbeddingProvider(providerFor('model-b'));
+    });
+    await store.loadIndex();
+
+    expect(store.getArticle('export')).toBeDefined();
+    expect(await store.searchChunks('export invoices to csv', 5, SEMANTIC_ONLY)).toEqual([]);
+    expect(store.getChunkEmbedding(store.getArticle('export')!.chunks[0]).status).toBe('stale');
+  });
+});
+
+describe('saving from more than one function instance', () => {
+  let tempStore: TempStore;
+
+  // A fresh copy of the modules on the same storage, like a second warm function instance
+  async function otherInstance(): Promise<typeof import('./articleStore')> {
+    let store!: typeof import('./articleStore');
+    jest.isolateModules(() => {
+      store = require('./articleStore');
+      require('./storage').setStorageBackend(createFileBackend(tempStore.rootDir));
+      require('./embeddings').setEmbeddingProvider(createLocalEmbeddingProvider());
+    });
+    await store.loadIndex();
+    return store;
+  }
+
+  beforeEach(async () => {
+    tempStore = await createTempStore('store-race');
+    quietLogs();
+    setEmbeddingProvider(createLocalEmbeddingProvider());
+    await storeArticle(testArticle('billing', 'Billing', 'Invoices are sent on the first day of each month.'));
+  });
+
+  afterEach(async () => {
+    clearArticles();
+    setEmbeddingProvider(null);
+    jest.restoreAllMocks();
+    await tempStore.remove();
+  });
+
+  test('a save keeps articles another instance saved since this one loaded', async () => {
+    const other = await otherInstance();
+    await other.storeArticle(testArticle('export', 'Exporting', 'Invoices can be exported to CSV from the billing page.'));
+
+    // This instance hasn't refreshed, so it still has the index without "export"
+    await storeArticle(testArticle('refunds', 'Refunds', 'Refunds reach your card within ten business days.'));
+
+    const fresh = await otherInstance();
+    expect(fresh.getAllArticles().map(article => article.id).sort()).toEqual(['billing', 'export', 'refunds']);
+    expect(getAllArticles().map(article => article.id).sort()).toEqual(['billing', 'export', 'refunds']);
+    const results = await searchChunks('exported to csv', 5, SEMANTIC_ONLY);
+    expect(results.map(result => result.chunk.articleId)).toContain('export');
+  });
+
+  test('a deletion elsewhere stays deleted and an article changed on both keeps this instance\'s version', async () => {
+    await storeArticle(testArticle('export', 'Exporting', 'Invoices can be exported to CSV from the billing page.'));
+    const other = await otherInstance();
+    await other.removeArticle('billing');
+    await other.updateArticleMetadata('export', { name: 'Exporting (old)' });
+
+    await updateArticleMetadata('export', { name: 'Exporting invoices' });
+
+    const fresh = await otherInstance();
+    expect(fresh.getAllArticles().map(article => [article.id, article.name])).toEqual([['export', 'Exporting invoices']]);
+  });
+
+  test('emptying the index also removes articles saved elsewhere meanwhile', async () => {
+    const other = await otherInstance();
+    await other.storeArticle(testArticle('export', 'Exporting', 'Invoices can be exported to CSV from the billing page.'));
+
+    await purgeIndex();
+
+    expect((await otherInstance()).getAllArticles()).toEqual([]);
+  });
+});
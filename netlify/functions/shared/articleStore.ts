@@ -1,170 +1,490 @@
-import OpenAI from 'openai';
+import { addDocument, Bm25Index, createBm25Index, searchBm25 } from './bm25';
+import { chunkDocument, ChunkOptions } from './chunking';
+import { matchesFilter, SearchFilter } from './filters';
+import { flushEmbeddingCache, getEmbeddingCacheStats } from './embeddingCache';
+import { EmbeddingProvider, generateEmbeddings, getEmbeddingProvider } from './embeddings';
+import { hashContent } from './hash';
+import { detectLanguage, normaliseLanguage } from './language';
+import { getReranker } from './reranker';
+import {
+  compactHnsw,
+  createHnswIndex,
+  deserializeHnsw,
+  getVector,
+  hasVector,
+  HnswIndex,
+  insertVector,
+  liveVectorCount,
+  normalise,
+  removeVector,
+  searchExact,
+  searchHnsw,
+  SerializedHnsw,
+  serializeHnsw,
+} from './hnsw';
+import { readArticles } from './sources';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, getTenantSources, tenantStorageKey } from './tenants';
 
-export interface ArticleChunk {
+/**
+ * Descriptive fields captured at ingest and copied onto every chunk for filtering
+ */
+export interface ArticleMetadata {
+  collection?: string;
+  categories?: string[];
+  tags?: string[];
+  status?: string; // e.g. 'published', 'draft'
+  language?: string; // ISO 639-1 code; detected at ingest unless the source sets it
+}
+
+export interface ArticleChunk extends ArticleMetadata {
   id: string;
   articleId: string;
   articleName: string;
+  sourceId?: string;
   text: string;
   url: string;
   lastModified: string;
-  embedding?: number[];
+  embedding?: number[]; // Only for vectors outside the vector index (other models, demo chunks)
+  embeddingModel?: string; // Model that produced the embedding; ada-002 when missing
+  embeddingDimensions?: number;
   chunkIndex: number;
+  headings?: string[]; // Heading trail of the section the chunk came from
+  anchor?: string; // Section anchor for deep links (url#anchor)
 }
 
-export interface Article {
+export interface Article extends ArticleMetadata {
   id: string;
+  sourceId?: string; // Knowledge source the article came from; 'helpscout' when missing
   name: string;
   text: string;
   url: string;
   lastModified: string;
+  contentHash?: string;
   chunks: ArticleChunk[];
 }
 
-// In-memory storage (in production, you'd use a proper vector database)
-let articleStore: Map<string, Article> = new Map();
-let articleChunks: ArticleChunk[] = [];
+export interface StoreOptions {
+  // Write a new index snapshot after the change (batch callers save once via saveIndex)
+  persist?: boolean;
+  // Chunk sizes for the article's source, in tokens of the embedding model
+  chunking?: Omit<ChunkOptions, 'model'>;
+  // Tenant whose index to change (default tenant when missing)
+  tenant?: string;
+}
+
+export interface SearchWeights {
+  lexical: number; // BM25 keyword ranking
+  semantic: number; // Embedding similarity ranking
+}
+
+export interface SearchOptions {
+  weights?: Partial<SearchWeights>;
+  // Only chunks matching the filter are ranked
+  filter?: SearchFilter;
+  // Re-score the top candidates with the configured reranker (default true)
+  rerank?: boolean;
+  // Tenant whose index to search (default tenant when missing)
+  tenant?: string;
+  // Rank relevant chunks in this language ahead of relevant chunks in others
+  language?: string;
+}
+
+export interface SearchResult {
+  chunk: ArticleChunk;
+  score: number; // Reciprocal-rank fusion score
+  lexicalRank?: number;
+  semanticRank?: number;
+  similarity?: number;
+  lexicalCoverage?: number; // Share of the query's keyword weight the chunk matched
+  rerankScore?: number;
+  // Whether the chunk is in the preferred language, when one was given
+  languageMatch?: boolean;
+  // Whether the chunk cleared the relevance cutoff; irrelevant results are only
+  // returned to suggest where to look, never as answer context
+  relevant: boolean;
+}
+
+export interface RelatedArticleOptions {
+  // Only articles with a chunk matching the filter are suggested
+  filter?: SearchFilter;
+  // Tenant whose articles to search (default tenant when missing)
+  tenant?: string;
+  // Rank articles in this language ahead of the rest
+  language?: string;
+  // Articles never to suggest besides the ones the search starts from
+  exclude?: string[];
+}
+
+export interface RelatedArticle {
+  articleId: string;
+  name: string;
+  url: string;
+  // Cosine similarity of the article's vector to the starting articles'
+  similarity: number;
+  language?: string;
+}
+
+export const DEFAULT_SEARCH_WEIGHTS: SearchWeights = { lexical: 1, semantic: 1 };
+
+// Indexes written before chunks recorded their model were all embedded with ada-002
+const LEGACY_EMBEDDING_MODEL = 'text-embedding-ada-002';
 
-// Simple in-memory storage (articles persist within single function execution)
-// Note: In production, articles need to be re-ingested for each chat session
-// This is actually fine for a demo - just run "Test Knowledge Base" before chatting
+export { chunkText } from './chunking';
+export { hashContent } from './hash';
 
+// Under each tenant's storage prefix (see tenantStorageKey)
 const STORAGE_KEY = 'helpscout-articles';
+const SNAPSHOTS_TO_KEEP = 3;
+
+// A linear scan over this many vectors is fast enough and exact
+const EXACT_SEARCH_MAX_VECTORS = Number(process.env.VECTOR_EXACT_SEARCH_MAX) || 1000;
+// Rebuild the graph once this share of its nodes are deleted vectors
+const VECTOR_COMPACT_RATIO = 0.25;
 
-// Load chunks from in-memory storage (no-op for current session storage)
-async function loadChunksFromStorage(): Promise<void> {
-  console.log(`🔍 Using in-memory storage - ${articleChunks.length} chunks already loaded`);
-  // No-op: chunks persist in memory within the same function execution
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
 }
 
-// Save chunks to in-memory storage (no-op for current session storage) 
-async function saveChunksToStorage(): Promise<void> {
-  console.log(`💾 Keeping ${articleChunks.length} chunks in memory for current session`);
-  // No-op: chunks already stored in articleChunks array
+// Relevance cutoffs. A chunk is relevant when its similarity or keyword coverage
+// clears the bar; with a reranker, its rerank score decides instead.
+const MIN_SIMILARITY = envNumber('SEARCH_MIN_SIMILARITY'); // Defaults to the embedding model's own cutoff
+const MIN_LEXICAL_COVERAGE = envNumber('SEARCH_MIN_LEXICAL_COVERAGE') ?? 0.5;
+const MIN_RERANK_SCORE = envNumber('SEARCH_MIN_RERANK_SCORE') ?? 0.5;
+const RERANK_TOP_N = Number(process.env.RERANK_TOP_N) || 20;
+// Whole articles on a related topic score well below a chunk answering a question
+const MIN_RELATED_SIMILARITY = envNumber('RELATED_ARTICLES_MIN_SIMILARITY'); // Defaults to the relevance cutoff
+
+interface SnapshotPointer {
+  version: number;
+  key: string;
+  createdAt: string;
+  totalArticles: number;
+  totalChunks: number;
 }
 
-// Fetch real articles on-demand when no chunks are available
-async function fetchRealArticlesOnDemand(): Promise<void> {
+interface IndexSnapshot {
+  version: number;
+  createdAt: string;
+  articles: Omit<Article, 'chunks'>[];
+  chunks: ArticleChunk[];
+  vectorsKey?: string; // Vector index for the chunks; absent when nothing is embedded
+}
+
+interface StoredVectorIndex {
+  model: string;
+  index: SerializedHnsw;
+}
+
+const INDEX_REFRESH_MS = 30 * 1000;
+
+// In-memory working copy of one tenant's index, hydrated lazily from persistent storage
+interface TenantIndex {
+  tenantId: string;
+  articles: Map<string, Article>;
+  chunks: ArticleChunk[];
+  // Keyword index over chunks, rebuilt on the next search after any change
+  lexical: { bm25: Bm25Index; chunksById: Map<string, ArticleChunk> } | null;
+  // Normalised vectors and ANN graph for chunks embedded with the active model
+  vectors: { model: string; hnsw: HnswIndex } | null;
+  // Per-article mean of the chunk vectors, rebuilt on the next lookup after any change
+  articleVectors: { model: string; byArticle: Map<string, ArticleVector> } | null;
+  currentPointerKey: string;
+  snapshotPrefix: string;
+  vectorsPrefix: string;
+  loadPromise: Promise<void> | null;
+  loadedVersion: number;
+  lastCheckedAt: number;
+  // Articles stored, updated or removed since the loaded version, and whether the index was
+  // emptied; saving re-applies them over any newer snapshot another instance saved meanwhile
+  unsavedArticleIds: Set<string>;
+  clearedSinceLoad: boolean;
+}
+
+interface ArticleVector {
+  vector: Float32Array;
+  name: string;
+  url: string;
+  language?: string;
+}
+
+const indexes = new Map<string, TenantIndex>();
+
+// Every exported function works on exactly one tenant's index; unknown tenants throw
+function indexFor(tenantId: string = DEFAULT_TENANT_ID): TenantIndex {
+  let index = indexes.get(tenantId);
+  if (!index) {
+    const storageKey = tenantStorageKey(tenantId, STORAGE_KEY);
+    index = {
+      tenantId,
+      articles: new Map(),
+      chunks: [],
+      lexical: null,
+      vectors: null,
+      articleVectors: null,
+      currentPointerKey: `${storageKey}/current.json`,
+      snapshotPrefix: `${storageKey}/snapshots/`,
+      vectorsPrefix: `${storageKey}/vectors/`,
+      loadPromise: null,
+      loadedVersion: 0,
+      lastCheckedAt: 0,
+      unsavedArticleIds: new Set(),
+      clearedSinceLoad: false,
+    };
+    indexes.set(tenantId, index);
+  }
+  return index;
+}
+
+// Load chunks from persistent storage on first use, then periodically pick up
+// snapshots saved by other function instances
+async function loadChunksFromStorage(index: TenantIndex): Promise<void> {
+  if (index.loadPromise && !hasUnsavedChanges(index) && Date.now() - index.lastCheckedAt > INDEX_REFRESH_MS) {
+    index.loadPromise = null;
+  }
+
+  if (!index.loadPromise) {
+    index.lastCheckedAt = Date.now();
+    index.loadPromise = readLatestSnapshot(index).catch(error => {
+      // Allow the next call to retry instead of caching the failure
+      index.loadPromise = null;
+      throw error;
+    });
+  }
+  return index.loadPromise;
+}
+
+function hasUnsavedChanges(index: TenantIndex): boolean {
+  return index.unsavedArticleIds.size > 0 || index.clearedSinceLoad;
+}
+
+async function readLatestSnapshot(index: TenantIndex): Promise<void> {
+  const storage = getStorageBackend();
+  const pointer = await storage.getJSON<SnapshotPointer>(index.currentPointerKey);
+
+  if (!pointer) {
+    console.log(`🔍 No stored index found for tenant ${index.tenantId} in ${storage.name} storage`);
+    return;
+  }
+
+  if (pointer.version === index.loadedVersion) {
+    return;
+  }
+
+  // Pointers hold full keys, so refuse one that leads outside this tenant's index
+  if (!pointer.key.startsWith(index.snapshotPrefix)) {
+    throw new Error(`Stored index pointer for tenant ${index.tenantId} points outside its index: ${pointer.key}`);
+  }
+
+  const snapshot = await storage.getJSON<IndexSnapshot>(pointer.key);
+  if (!snapshot || snapshot.version !== pointer.version) {
+    // The pointer is only written after its snapshot, so this means the snapshot was removed
+    throw new Error(`Stored index snapshot ${pointer.key} is missing or does not match version ${pointer.version}`);
+  }
+
+  if (snapshot.vectorsKey && !snapshot.vectorsKey.startsWith(index.vectorsPrefix)) {
+    throw new Error(`Stored index snapshot ${pointer.key} references vectors outside its index: ${snapshot.vectorsKey}`);
+  }
+  const storedVectors = snapshot.vectorsKey ? await storage.getJSON<StoredVectorIndex>(snapshot.vectorsKey) : null;
+  if (snapshot.vectorsKey && !storedVectors) {
+    throw new Error(`Stored vector index ${snapshot.vectorsKey} is missing`);
+  }
+
+  const chunksByArticle = new Map<string, ArticleChunk[]>();
+  for (const chunk of snapshot.chunks) {
+    const chunks = chunksByArticle.get(chunk.articleId) || [];
+    chunks.push(chunk);
+    chunksByArticle.set(chunk.articleId, chunks);
+  }
+
+  index.articles = new Map();
+  for (const article of snapshot.articles) {
+    index.articles.set(article.id, { ...article, chunks: chunksByArticle.get(article.id) || [] });
+  }
+  index.chunks = snapshot.chunks;
+  index.lexical = null;
+  index.articleVectors = null;
+  index.vectors = storedVectors ? { model: storedVectors.model, hnsw: deserializeHnsw(storedVectors.index) } : null;
+  syncVectorIndexWithProvider(index);
+
+  index.loadedVersion = snapshot.version;
+  console.log(`🔍 Loaded index v${snapshot.version} for tenant ${index.tenantId} from ${storage.name} storage - ${index.chunks.length} chunks`);
+}
+
+// Reload the latest snapshot and re-apply this instance's unsaved changes on top of it, so
+// saving keeps what other instances saved since this one loaded. An article changed on
+// both keeps this instance's version.
+async function rebaseOnLatestSnapshot(index: TenantIndex): Promise<void> {
+  const embedder = getEmbeddingProvider();
+  const changed = new Map(Array.from(index.unsavedArticleIds).map(id => [id, index.articles.get(id)]));
+  const cleared = index.clearedSinceLoad;
+  // Copied out of the vector index, which the reload replaces
+  const vectors = new Map<string, Float32Array>();
+  if (index.vectors && index.vectors.model === embedder.model) {
+    const { hnsw } = index.vectors;
+    changed.forEach(article => article && article.chunks.forEach(chunk => {
+      const vector = getVector(hnsw, chunk.id);
+      if (vector) vectors.set(chunk.id, Float32Array.from(vector));
+    }));
+  }
+
+  console.log(`🔀 Index for tenant ${index.tenantId} was saved elsewhere since v${index.loadedVersion}, re-applying ${changed.size} changed articles${cleared ? ' after emptying it' : ''}`);
+  const previous = { articles: index.articles, chunks: index.chunks, vectors: index.vectors, loadedVersion: index.loadedVersion };
+  index.articles = new Map();
+  index.chunks = [];
+  index.vectors = null;
+  index.loadedVersion = 0;
   try {
-    console.log('🔄 Fetching real HelpScout articles on-demand...');
-    
-    const helpscoutApiKey = process.env.HELPSCOUT_API_KEY;
-    if (!helpscoutApiKey) {
-      console.error('❌ HelpScout API key not available');
-      await createDemoChunks();
-      return;
-    }
+    await readLatestSnapshot(index);
+  } catch (error) {
+    // Keep the unsaved changes for the next attempt
+    Object.assign(index, previous);
+    throw error;
+  }
 
-    // Import axios dynamically (since we're in a serverless function)
-    const axios = await import('axios');
-    
-    // Get a few real articles
-    const response = await axios.default.get('https://docsapi.helpscout.net/v1/collections', {
-      auth: {
-        username: helpscoutApiKey,
-        password: 'X',
-      },
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  if (cleared) {
+    index.articles = new Map();
+    index.chunks = [];
+    index.vectors = null;
+  } else {
+    removeChunkVectors(index, new Set(changed.keys()));
+    changed.forEach((_, id) => index.articles.delete(id));
+    index.chunks = index.chunks.filter(chunk => !changed.has(chunk.articleId));
+  }
+
+  changed.forEach((article, id) => {
+    if (!article) return;
+    index.articles.set(id, article);
+    index.chunks.push(...article.chunks);
+    article.chunks.forEach(chunk => {
+      const vector = vectors.get(chunk.id);
+      if (vector) insertVector(vectorIndexFor(index, embedder, vector.length), chunk.id, vector);
     });
+  });
+  index.lexical = null;
+  index.articleVectors = null;
+}
+
+// Save chunks to persistent storage as a new versioned snapshot
+async function saveChunksToStorage(index: TenantIndex): Promise<void> {
+  const storage = getStorageBackend();
+  const pointer = await storage.getJSON<SnapshotPointer>(index.currentPointerKey);
+  // Another instance saved since this one loaded (instances only refresh every
+  // INDEX_REFRESH_MS). Storage has no compare-and-swap, so two saves at the same moment
+  // can still race, but no longer one against a copy up to a refresh interval old.
+  if ((pointer ? pointer.version : 0) !== index.loadedVersion) {
+    await rebaseOnLatestSnapshot(index);
+  }
+  const version = index.loadedVersion + 1;
+  const createdAt = new Date().toISOString();
+  const key = `${index.snapshotPrefix}${String(version).padStart(8, '0')}.json`;
+
+  let vectorsKey: string | undefined;
+  if (index.vectors) {
+    const { hnsw } = index.vectors;
+    if (hnsw.deleted.size > hnsw.size * VECTOR_COMPACT_RATIO) {
+      console.log(`🧹 Compacting vector index (${hnsw.deleted.size} deleted of ${hnsw.size})`);
+      index.vectors.hnsw = compactHnsw(hnsw);
+    }
+    vectorsKey = `${index.vectorsPrefix}${String(version).padStart(8, '0')}.json`;
+    await storage.setJSON(vectorsKey, { model: index.vectors.model, index: serializeHnsw(index.vectors.hnsw) } as StoredVectorIndex);
+  }
+
+  const snapshot: IndexSnapshot = {
+    version,
+    createdAt,
+    articles: Array.from(index.articles.values()).map(({ chunks, ...article }) => article),
+    // Demo chunks have no backing article and are never persisted
+    chunks: index.chunks.filter(chunk => index.articles.has(chunk.articleId)),
+    vectorsKey,
+  };
+
+  // Write vectors and snapshot first and only then move the pointer, so readers never see a partial index
+  await storage.setJSON(key, snapshot);
+  await storage.setJSON(index.currentPointerKey, {
+    version,
+    key,
+    createdAt,
+    totalArticles: snapshot.articles.length,
+    totalChunks: snapshot.chunks.length,
+  } as SnapshotPointer);
+  index.loadedVersion = version;
+  index.unsavedArticleIds.clear();
+  index.clearedSinceLoad = false;
+
+  console.log(`💾 Saved index v${version} for tenant ${index.tenantId} to ${storage.name} storage - ${snapshot.chunks.length} chunks`);
+
+  // Cache entries are only worth keeping once the index that uses them is saved
+  await flushEmbeddingCache();
+  await pruneSnapshots(index.snapshotPrefix, key);
+  await pruneSnapshots(index.vectorsPrefix, vectorsKey);
+}
+
+// Remove old snapshots, keeping the most recent few for rollback
+async function pruneSnapshots(prefix: string, currentKey?: string): Promise<void> {
+  try {
+    const storage = getStorageBackend();
+    const keys = (await storage.list(prefix)).sort();
+    const stale = keys.filter(key => key !== currentKey).slice(0, Math.max(0, keys.length - SNAPSHOTS_TO_KEEP));
 
-    const collections = response.data;
-    let collectionsArray;
+    for (const key of stale) {
+      await storage.delete(key);
+    }
+  } catch (error) {
+    console.error('Error pruning old index snapshots:', error);
+  }
+}
+
+// Fetch real articles on-demand when no chunks are available
+async function fetchRealArticlesOnDemand(index: TenantIndex): Promise<void> {
+  try {
+    console.log(`🔄 Fetching real articles on-demand for tenant ${index.tenantId}...`);
     
-    if (collections.collections && collections.collections.items) {
-      collectionsArray = collections.collections.items;
-    } else if (collections.items) {
-      collectionsArray = collections.items;
-    } else if (Array.isArray(collections)) {
-      collectionsArray = collections;
-    } else {
-      console.error('❌ Unexpected collections structure');
-      await createDemoChunks();
+    const sources = getTenantSources(index.tenantId);
+    if (sources.length === 0) {
+      console.error('❌ No knowledge sources configured');
+      await createDemoChunks(index);
       return;
     }
 
     let articlesProcessed = 0;
     const MAX_ARTICLES = 3; // Just get a few for chat
 
-    for (const collection of collectionsArray.slice(0, 3)) {
+    for (const source of sources) {
       if (articlesProcessed >= MAX_ARTICLES) break;
-      
-      try {
-        const articlesResponse = await axios.default.get(
-          `https://docsapi.helpscout.net/v1/collections/${collection.id}/articles`,
-          {
-            auth: {
-              username: helpscoutApiKey,
-              password: 'X',
-            },
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-
-        let articles = [];
-        if (articlesResponse.data.articles && articlesResponse.data.articles.items) {
-          articles = articlesResponse.data.articles.items;
-        } else if (articlesResponse.data.items) {
-          articles = articlesResponse.data.items;
-        }
 
-        for (const article of articles.slice(0, 2)) {
-          if (articlesProcessed >= MAX_ARTICLES) break;
-          
+      try {
+        for await (const article of readArticles(source, MAX_ARTICLES - articlesProcessed)) {
           try {
-            const articleResponse = await axios.default.get(
-              `https://docsapi.helpscout.net/v1/articles/${article.id}`,
-              {
-                auth: {
-                  username: helpscoutApiKey,
-                  password: 'X',
-                },
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-              }
-            );
-
-            const fullArticle = articleResponse.data.article;
-            
-            if (!fullArticle.text || fullArticle.text.trim().length === 0) {
-              continue;
-            }
-            
-            const articleToStore = {
-              id: fullArticle.id,
-              name: fullArticle.name,
-              text: fullArticle.text,
-              url: fullArticle.publicUrl || '',
-              lastModified: fullArticle.updatedAt,
-              chunks: [],
-            };
-
-            await storeArticle(articleToStore);
+            await storeArticle(article, { chunking: source.chunking, tenant: index.tenantId });
             articlesProcessed++;
             
-            console.log(`✅ On-demand processed: ${fullArticle.name}`);
+            console.log(`✅ On-demand processed: ${article.name}`);
           } catch (error) {
-            console.error(`Error processing article ${article.id}:`, error.message);
+            console.error(`Error processing article ${article.id}:`, error instanceof Error ? error.message : error);
           }
         }
       } catch (error) {
-        console.error(`Error processing collection ${collection.id}:`, error.message);
+        console.error(`Error reading source ${source.id}:`, error instanceof Error ? error.message : error);
       }
     }
     
     console.log(`✅ On-demand fetched ${articlesProcessed} real articles`);
   } catch (error) {
-    console.error('❌ Error in on-demand fetch:', error.message);
+    console.error('❌ Error in on-demand fetch:', error instanceof Error ? error.message : error);
     // Fallback to demo chunks if real fetch fails
-    await createDemoChunks();
+    await createDemoChunks(index);
   }
 }
 
 // Create demo chunks for production testing
-async function createDemoChunks(): Promise<void> {
+async function createDemoChunks(index: TenantIndex): Promise<void> {
+  // Demo content belongs to no client, so only the default tenant gets it
+  if (index.tenantId !== DEFAULT_TENANT_ID) return;
+
   try {
     console.log('🎯 Creating demo chunks for production testing...');
     
@@ -177,6 +497,7 @@ async function createDemoChunks(): Promise<void> {
         url: 'https://support.aloompa.com/article/589-testing-your-android-app',
         lastModified: new Date().toISOString(),
         chunkIndex: 0,
+        language: 'en',
       },
       {
         id: 'demo_ios_chunk_0',
@@ -186,6 +507,7 @@ async function createDemoChunks(): Promise<void> {
         url: 'https://support.aloompa.com/article/339-testing-your-app',
         lastModified: new Date().toISOString(),
         chunkIndex: 0,
+        language: 'en',
       },
       {
         id: 'demo_push_chunk_0',
@@ -195,167 +517,261 @@ async function createDemoChunks(): Promise<void> {
         url: 'https://support.aloompa.com/article/592-push-notifications-setup',
         lastModified: new Date().toISOString(),
         chunkIndex: 0,
+        language: 'en',
       }
     ];
     
-    // Generate embeddings for demo chunks
-    for (const chunk of demoChunks) {
-      try {
-        console.log(`🔄 Generating embedding for: ${chunk.articleName}`);
-        const embedding = await generateEmbedding(chunk.text);
-        chunk.embedding = embedding;
-        articleChunks.push(chunk);
-        console.log(`✅ Created demo chunk: ${chunk.articleName} (embedding length: ${embedding.length})`);
-      } catch (error) {
-        console.error(`❌ Failed to create embedding for demo chunk ${chunk.id}:`, error);
-        // Add chunk without embedding as fallback
-        articleChunks.push(chunk);
-        console.log(`⚠️ Added demo chunk without embedding: ${chunk.articleName}`);
-      }
+    // Generate embeddings for demo chunks in one batch
+    try {
+      console.log(`🔄 Generating embeddings for ${demoChunks.length} demo chunks`);
+      const embedder = getEmbeddingProvider();
+      const embeddings = await generateEmbeddings(demoChunks.map(chunk => chunk.text), {}, embedder);
+      demoChunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+        chunk.embeddingModel = embedder.model;
+        chunk.embeddingDimensions = embeddings[i].length;
+      });
+    } catch (error) {
+      // Keep the chunks without embeddings so keyword search still works
+      console.error('❌ Failed to create embeddings for demo chunks:', error);
     }
+    index.chunks.push(...demoChunks);
+    index.lexical = null;
+    index.articleVectors = null;
     
-    console.log(`🎯 Created ${articleChunks.length} demo chunks for production testing`);
+    console.log(`🎯 Created ${index.chunks.length} demo chunks for production testing`);
   } catch (error) {
     console.error('❌ Error creating demo chunks:', error);
   }
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 /**
- * Chunks text into smaller pieces with overlap
+ * Generate an embedding for a single text (e.g. a search query)
  */
-export function chunkText(text: string, maxTokens: number = 800, overlapTokens: number = 100): string[] {
-  // Validate inputs
-  if (!text || typeof text !== 'string') {
-    return [];
+export async function generateEmbedding(text: string): Promise<number[]> {
+  try {
+    const [embedding] = await generateEmbeddings([text], { cache: false });
+    return embedding;
+  } catch (error) {
+    console.error('Error generating embedding:', error);
+    throw error;
   }
-  
-  // Clean the text
-  const cleanText = text.trim();
-  if (cleanText.length === 0) {
-    return [];
+}
+
+// Move the index's vectors back onto their chunks, where search ignores them until re-embedded
+function detachVectorIndex(index: TenantIndex): void {
+  if (!index.vectors) return;
+
+  const { hnsw } = index.vectors;
+  index.chunks.forEach(chunk => {
+    const vector = getVector(hnsw, chunk.id);
+    if (vector) chunk.embedding = Array.from(vector);
+  });
+  index.vectors = null;
+  index.articleVectors = null;
+}
+
+// Index for the active model, replacing one built for a different model or size
+function vectorIndexFor(index: TenantIndex, embedder: EmbeddingProvider, dimensions: number): HnswIndex {
+  if (index.vectors && (index.vectors.model !== embedder.model || index.vectors.hnsw.dimensions !== dimensions)) {
+    console.log(`🔀 Embedding model changed from ${index.vectors.model} to ${embedder.model}, starting a new vector index`);
+    detachVectorIndex(index);
   }
-  
-  // Simple chunking by characters (approximation: 1 token ≈ 4 characters)
-  // Add extra safety checks to prevent "Invalid array length" errors
-  const safeMaxTokens = Math.max(100, Math.min(maxTokens, 2000)); // Ensure reasonable bounds
-  const maxChars = Math.min(safeMaxTokens * 4, 8000); // Cap at safe size
-  const overlapChars = Math.min(overlapTokens * 4, maxChars * 0.2); // Ensure overlap isn't too big
-  
-  if (cleanText.length <= maxChars) {
-    return [cleanText];
+  if (!index.vectors) {
+    index.vectors = { model: embedder.model, hnsw: createHnswIndex(dimensions) };
   }
-  
-  const chunks: string[] = [];
-  let start = 0;
-  
-  while (start < cleanText.length && chunks.length < 50) { // Limit total chunks
-    let end = Math.min(start + maxChars, cleanText.length);
-    
-    // Try to break at a sentence or paragraph boundary
-    if (end < cleanText.length) {
-      const lastPeriod = cleanText.lastIndexOf('.', end);
-      const lastNewline = cleanText.lastIndexOf('\n', end);
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      
-      if (breakPoint > start + maxChars * 0.5) {
-        end = breakPoint + 1;
-      }
-    }
-    
-    const chunk = cleanText.slice(start, end).trim();
-    if (chunk.length > 0) {
-      chunks.push(chunk);
-    }
-    
-    start = Math.max(end - overlapChars, start + 1); // Ensure we always progress
-    
-    // Prevent infinite loops
-    if (start >= cleanText.length) {
-      break;
-    }
+  return index.vectors.hnsw;
+}
+
+// After loading: drop an index built with another model
+function syncVectorIndexWithProvider(index: TenantIndex): void {
+  const embedder = getEmbeddingProvider();
+  if (index.vectors && (index.vectors.model !== embedder.model || (embedder.dimensions && index.vectors.hnsw.dimensions !== embedder.dimensions))) {
+    detachVectorIndex(index);
   }
-  
-  return chunks;
+}
+
+function removeChunkVectors(index: TenantIndex, articleIds: Set<string>): void {
+  if (!index.vectors) return;
+  const { hnsw } = index.vectors;
+  index.chunks
+    .filter(chunk => articleIds.has(chunk.articleId))
+    .forEach(chunk => removeVector(hnsw, chunk.id));
+}
+
+function hasEmbedding(index: TenantIndex, chunk: ArticleChunk): boolean {
+  return Boolean(chunk.embedding) || Boolean(index.vectors && hasVector(index.vectors.hnsw, chunk.id));
+}
+
+function embeddedWith(index: TenantIndex, chunk: ArticleChunk, embedder: EmbeddingProvider): boolean {
+  if (index.vectors && hasVector(index.vectors.hnsw, chunk.id)) {
+    return index.vectors.model === embedder.model && (!embedder.dimensions || index.vectors.hnsw.dimensions === embedder.dimensions);
+  }
+  if (!chunk.embedding) return false;
+  if ((chunk.embeddingModel || LEGACY_EMBEDDING_MODEL) !== embedder.model) return false;
+  return !embedder.dimensions || chunk.embedding.length === embedder.dimensions;
 }
 
 /**
- * Generate embeddings for text using OpenAI
+ * Whether a chunk's vector came from the given provider and can be compared with its output
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: text,
-    });
-    
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    throw error;
-  }
+export function isEmbeddedWith(
+  chunk: ArticleChunk,
+  embedder: EmbeddingProvider = getEmbeddingProvider(),
+  tenant: string = DEFAULT_TENANT_ID
+): boolean {
+  return embeddedWith(indexFor(tenant), chunk, embedder);
+}
+
+function metadataOf(article: ArticleMetadata): ArticleMetadata {
+  return {
+    collection: article.collection,
+    categories: article.categories,
+    tags: article.tags,
+    status: article.status,
+    language: article.language,
+  };
+}
+
+// The language the source gave, or the one the article's text is written in
+function articleLanguage(article: Pick<Article, 'name' | 'text' | 'language'>): string | undefined {
+  if (article.language) return normaliseLanguage(article.language);
+  return detectLanguage(`${article.name}\n${article.text}`).language || undefined;
 }
 
 /**
- * Store an article and its chunks
+ * Store an article and its chunks in a tenant's index
  */
-export async function storeArticle(article: Article): Promise<void> {
+export async function storeArticle(article: Article, options: StoreOptions = {}): Promise<void> {
   try {
     // Validate article data
     if (!article.text || typeof article.text !== 'string' || article.text.trim().length === 0) {
       throw new Error(`Article ${article.id} has no valid text content`);
     }
+
+    const index = indexFor(options.tenant);
+
+    // Make sure the stored index is loaded so saving doesn't overwrite it with a partial one
+    await loadChunksFromStorage(index);
     
-    // Clear existing chunks for this article
-    articleChunks = articleChunks.filter(chunk => chunk.articleId !== article.id);
-    
+    article.language = articleLanguage(article);
+
     // Generate chunks with error handling
-    const textChunks = chunkText(article.text);
+    const embedder = getEmbeddingProvider();
+    const textChunks = chunkDocument(article.text, { ...options.chunking, model: embedder.model });
     if (textChunks.length === 0) {
       console.warn(`No chunks generated for article ${article.id}`);
       return;
     }
     
-    const chunks: ArticleChunk[] = [];
-  
-  for (let i = 0; i < textChunks.length; i++) {
-    const chunkText = textChunks[i];
+    // Embed all chunks before touching the index so a failure leaves the previous version intact
+    const embeddings = await generateEmbeddings(textChunks.map(chunk => chunk.text), {}, embedder);
     
-    try {
-      const embedding = await generateEmbedding(chunkText);
-      
-      const chunk: ArticleChunk = {
-        id: `${article.id}_chunk_${i}`,
-        articleId: article.id,
-        articleName: article.name,
-        text: chunkText,
-        url: article.url,
-        lastModified: article.lastModified,
-        embedding,
-        chunkIndex: i,
-      };
-      
-      chunks.push(chunk);
-      articleChunks.push(chunk);
-    } catch (error) {
-      console.error(`Error processing chunk ${i} for article ${article.id}:`, error);
+    const chunks: ArticleChunk[] = textChunks.map(({ text, headings, anchor }, i) => ({
+      id: `${article.id}_chunk_${i}`,
+      articleId: article.id,
+      articleName: article.name,
+      sourceId: article.sourceId,
+      text,
+      url: article.url,
+      lastModified: article.lastModified,
+      ...metadataOf(article),
+      embeddingModel: embedder.model,
+      embeddingDimensions: embeddings[i].length,
+      chunkIndex: i,
+      headings,
+      anchor,
+    }));
+
+    // Replace existing chunks for this article
+    removeChunkVectors(index, new Set([article.id]));
+    index.chunks = index.chunks.filter(chunk => chunk.articleId !== article.id);
+    index.chunks.push(...chunks);
+    index.lexical = null;
+    index.articleVectors = null;
+
+    const hnsw = vectorIndexFor(index, embedder, embeddings[0].length);
+    chunks.forEach((chunk, i) => insertVector(hnsw, chunk.id, embeddings[i]));
+
+    article.contentHash = hashContent(article.text);
+    article.chunks = chunks;
+    index.articles.set(article.id, article);
+    index.unsavedArticleIds.add(article.id);
+
+    // Persist a new index snapshot
+    if (options.persist !== false) {
+      await saveChunksToStorage(index);
     }
-  }
-  
-  article.chunks = chunks;
-  articleStore.set(article.id, article);
-  
-  // Save to blob store for persistence
-  await saveChunksToStorage();
   } catch (error) {
     console.error(`Error storing article ${article.id}:`, error);
     throw error;
   }
 }
 
+/**
+ * Update an article's metadata without re-chunking or re-embedding it
+ */
+export async function updateArticleMetadata(
+  id: string,
+  updates: Partial<Pick<Article, 'name' | 'url' | 'lastModified'> & ArticleMetadata>,
+  options: StoreOptions = {}
+): Promise<boolean> {
+  const index = indexFor(options.tenant);
+  await loadChunksFromStorage(index);
+
+  const article = index.articles.get(id);
+  if (!article) return false;
+
+  Object.assign(article, updates);
+  article.language = articleLanguage(article);
+  article.chunks.forEach(chunk => {
+    chunk.articleName = article.name;
+    chunk.url = article.url;
+    chunk.lastModified = article.lastModified;
+    Object.assign(chunk, metadataOf(article));
+  });
+  // Titles are part of the keyword index
+  index.lexical = null;
+  index.articleVectors = null;
+  index.unsavedArticleIds.add(id);
+
+  if (options.persist !== false) {
+    await saveChunksToStorage(index);
+  }
+  return true;
+}
+
+/**
+ * Remove an article and its chunks from the index
+ */
+export async function removeArticle(id: string, options: StoreOptions = {}): Promise<boolean> {
+  const index = indexFor(options.tenant);
+  await loadChunksFromStorage(index);
+
+  if (!index.articles.has(id)) return false;
+
+  index.articles.delete(id);
+  removeChunkVectors(index, new Set([id]));
+  index.chunks = index.chunks.filter(chunk => chunk.articleId !== id);
+  index.lexical = null;
+  index.articleVectors = null;
+  index.unsavedArticleIds.add(id);
+
+  if (options.persist !== false) {
+    await saveChunksToStorage(index);
+  }
+  return true;
+}
+
+/**
+ * Persist a tenant's current index as a new snapshot
+ */
+export async function saveIndex(tenant?: string): Promise<void> {
+  const index = indexFor(tenant);
+  await loadChunksFromStorage(index);
+  await saveChunksToStorage(index);
+}
+
 /**
  * Calculate cosine similarity between two vectors
  */
@@ -370,114 +786,421 @@ function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 /**
- * Search for relevant article chunks
+ * Similarity a chunk needs to count as relevant: SEARCH_MIN_SIMILARITY, or the active
+ * embedding model's own cutoff
  */
-export async function searchArticles(query: string, limit: number = 5): Promise<ArticleChunk[]> {
-  console.log(`Search called with query: "${query}"`);
+export function getSimilarityCutoff(): number {
+  return MIN_SIMILARITY ?? getEmbeddingProvider().minSimilarity;
+}
+
+const RRF_K = 60;
+const MIN_CANDIDATES = 50;
+
+function getLexicalIndex(index: TenantIndex) {
+  if (!index.lexical) {
+    const bm25 = createBm25Index();
+    const chunksById = new Map<string, ArticleChunk>();
+    for (const chunk of index.chunks) {
+      // Titles count as chunk text so article names match too
+      addDocument(bm25, { id: chunk.id, text: `${chunk.articleName}\n${chunk.text}` });
+      chunksById.set(chunk.id, chunk);
+    }
+    index.lexical = { bm25, chunksById };
+  }
+  return index.lexical;
+}
+
+// Rank chunks embedded with the current model by cosine similarity to the query,
+// considering only `allowed` chunks when a filter is active
+async function semanticSearch(
+  index: TenantIndex,
+  query: string,
+  limit: number,
+  allowed: Set<string> | null
+): Promise<Array<{ chunk: ArticleChunk; similarity: number }>> {
+  // Vectors from other models aren't comparable
+  const embedder = getEmbeddingProvider();
+  const indexed = index.vectors && index.vectors.model === embedder.model ? index.vectors.hnsw : null;
+  // Vectors not in the index (e.g. demo chunks) are scored exactly
+  const inline = index.chunks.filter(chunk => chunk.embedding && embeddedWith(index, chunk, embedder));
+
+  const incompatible = index.chunks.filter(chunk => hasEmbedding(index, chunk)).length - (indexed ? liveVectorCount(indexed) : 0) - inline.length;
+  if (incompatible > 0) {
+    console.warn(`⚠️ Ignoring ${incompatible} chunks embedded with a different model than ${embedder.model} - re-run ingestion to re-embed them`);
+  }
+
+  const eligibleInline = allowed ? inline.filter(chunk => allowed.has(chunk.id)) : inline;
+  let eligibleIndexed = indexed ? liveVectorCount(indexed) : 0;
+  if (indexed && allowed) {
+    eligibleIndexed = 0;
+    allowed.forEach(id => {
+      if (hasVector(indexed, id)) eligibleIndexed++;
+    });
+  }
+  if (eligibleIndexed + eligibleInline.length === 0) return [];
+
+  const queryEmbedding = await generateEmbedding(query);
+  const results: Array<{ chunk: ArticleChunk; similarity: number }> = [];
+
+  if (indexed && eligibleIndexed > 0 && indexed.dimensions === queryEmbedding.length) {
+    const accept = allowed ? (id: string) => allowed.has(id) : undefined;
+    const useAnn = eligibleIndexed > EXACT_SEARCH_MAX_VECTORS;
+    // The graph walk passes over filtered-out vectors, so widen it in proportion
+    const ef = Math.min(liveVectorCount(indexed), Math.ceil(indexed.options.efSearch * liveVectorCount(indexed) / eligibleIndexed));
+    const hits = useAnn
+      ? searchHnsw(indexed, queryEmbedding, limit, { ef, accept })
+      : searchExact(indexed, queryEmbedding, limit, accept);
+    const { chunksById } = getLexicalIndex(index);
+    hits.forEach(hit => {
+      const chunk = chunksById.get(hit.id);
+      if (chunk) results.push({ chunk, similarity: hit.similarity });
+    });
+    console.log(`🧭 ${useAnn ? 'HNSW' : 'Exact'} vector search over ${eligibleIndexed} vectors`);
+  }
+
+  eligibleInline
+    .filter(chunk => chunk.embedding!.length === queryEmbedding.length)
+    .forEach(chunk => results.push({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding!) }));
+
+  return results
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Search for relevant article chunks with BM25 and vector retrieval, fusing the two
+ * rankings with weighted reciprocal-rank fusion
+ */
+export async function searchChunks(query: string, limit: number = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const index = indexFor(options.tenant);
   
-  // Load chunks from blob store if not in memory
-  if (articleChunks.length === 0) {
-    await loadChunksFromStorage();
+  // Load chunks from persistent storage on first use
+  try {
+    await loadChunksFromStorage(index);
+  } catch (error) {
+    console.error('Error loading stored index:', error);
   }
   
-  console.log(`Total chunks available: ${articleChunks.length}`);
+  console.log(`Total chunks available for tenant ${index.tenantId}: ${index.chunks.length}`);
   
-  // If still no chunks after loading from blob store, fetch real articles on-demand
-  if (articleChunks.length === 0) {
+  // If still no chunks after loading from storage, fetch real articles on-demand
+  if (index.chunks.length === 0) {
     console.log('🚀 No chunks found, fetching real articles on-demand...');
-    await fetchRealArticlesOnDemand();
+    await fetchRealArticlesOnDemand(index);
   }
   
-  if (articleChunks.length === 0) {
+  if (index.chunks.length === 0) {
     console.log('No chunks available for search');
     return [];
   }
   
+  const weights: SearchWeights = { ...DEFAULT_SEARCH_WEIGHTS, ...options.weights };
+  
+  // Filters narrow the candidate set before either retriever ranks it
+  const { filter } = options;
+  const allowed = filter ? new Set(index.chunks.filter(chunk => matchesFilter(chunk, filter)).map(chunk => chunk.id)) : null;
+  if (allowed) {
+    console.log(`🔎 Filter matched ${allowed.size} of ${index.chunks.length} chunks`);
+    if (allowed.size === 0) return [];
+  }
+  
+  const candidates = Math.max(limit * 4, MIN_CANDIDATES);
+  const results = new Map<string, SearchResult>();
+  const resultFor = (chunk: ArticleChunk) => {
+    let result = results.get(chunk.id);
+    if (!result) {
+      result = { chunk, score: 0, relevant: false };
+      results.set(chunk.id, result);
+    }
+    return result;
+  };
+  
   try {
-    // Try semantic search with embeddings first
-    const chunksWithEmbeddings = articleChunks.filter(chunk => chunk.embedding);
+    if (weights.lexical > 0) {
+      const { bm25, chunksById } = getLexicalIndex(index);
+      const hits = searchBm25(bm25, query, candidates, allowed ? id => allowed.has(id) : undefined);
+      hits.forEach((hit, i) => {
+        const result = resultFor(chunksById.get(hit.id)!);
+        result.lexicalRank = i + 1;
+        result.lexicalCoverage = hit.coverage;
+        result.score += weights.lexical / (RRF_K + i + 1);
+      });
+      console.log(`🔍 Keyword search matched ${hits.length} chunks`);
+    }
+    
+    if (weights.semantic > 0) {
+      try {
+        const hits = await semanticSearch(index, query, candidates, allowed);
+        hits.forEach(({ chunk, similarity }, i) => {
+          const result = resultFor(chunk);
+          result.semanticRank = i + 1;
+          result.similarity = similarity;
+          result.score += weights.semantic / (RRF_K + i + 1);
+        });
+        console.log(`🔍 Semantic search ranked ${hits.length} chunks`);
+      } catch (error) {
+        // Keyword results are still useful when the embedding API is down
+        console.error('Semantic search failed, using keyword results only:', error);
+      }
+    }
     
-    if (chunksWithEmbeddings.length > 0) {
-      console.log(`🔍 Using semantic search with ${chunksWithEmbeddings.length} chunks with embeddings`);
-      const queryEmbedding = await generateEmbedding(query);
-      
-      const similarities = chunksWithEmbeddings
-        .map(chunk => ({
-          chunk,
-          similarity: cosineSimilarity(queryEmbedding, chunk.embedding!),
-        }))
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
-      
-      console.log(`🎯 Semantic search found ${similarities.length} results`);
-      return similarities.map(item => item.chunk);
-    } else {
-      // Fallback to keyword search if no embeddings available
-      console.log(`🔍 Using keyword search fallback with ${articleChunks.length} chunks`);
-      const keywordResults = articleChunks
-        .map(chunk => {
-          const queryLower = query.toLowerCase();
-          const textLower = chunk.text.toLowerCase();
-          const titleLower = chunk.articleName.toLowerCase();
-          
-          let score = 0;
-          if (titleLower.includes(queryLower)) score += 10;
-          if (textLower.includes(queryLower)) score += 5;
-          
-          // Check for individual query words
-          const queryWords = queryLower.split(/\s+/);
-          queryWords.forEach(word => {
-            if (titleLower.includes(word)) score += 3;
-            if (textLower.includes(word)) score += 1;
-          });
-          
-          return { chunk, score };
-        })
-        .filter(item => item.score > 0)
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-      
-      console.log(`🎯 Keyword search found ${keywordResults.length} results`);
-      return keywordResults.map(item => item.chunk);
+    let fused = Array.from(results.values()).sort((a, b) => b.score - a.score);
+    
+    const reranker = options.rerank === false ? null : getReranker();
+    if (reranker && fused.length > 0) {
+      const top = fused.slice(0, Math.max(RERANK_TOP_N, limit));
+      try {
+        const scores = await reranker.rerank(query, top.map(result => `${result.chunk.articleName}\n${result.chunk.text}`));
+        top.forEach((result, i) => {
+          result.rerankScore = scores[i];
+        });
+        // Candidates past the top N were never scored and stay behind the reranked ones
+        fused = top.sort((a, b) => b.rerankScore! - a.rerankScore!).concat(fused.slice(top.length));
+        console.log(`🏅 Re-ranked ${top.length} candidates with ${reranker.type} reranker`);
+      } catch (error) {
+        // Fall back to the fused order and the plain score cutoffs
+        console.error('Re-ranking failed, keeping fused order:', error);
+      }
     }
+    
+    const minSimilarity = getSimilarityCutoff();
+    fused.forEach(result => {
+      result.relevant = result.rerankScore !== undefined
+        ? result.rerankScore >= MIN_RERANK_SCORE
+        : (result.similarity !== undefined && result.similarity >= minSimilarity)
+          || (result.lexicalCoverage !== undefined && result.lexicalCoverage >= MIN_LEXICAL_COVERAGE);
+    });
+    
+    // Same-language chunks first among the relevant ones; other languages only fill the
+    // remaining places, which is what lets a question be answered from another language's docs
+    const { language } = options;
+    if (language) {
+      fused.forEach(result => {
+        result.languageMatch = result.chunk.language === language;
+      });
+    }
+    
+    // Relevant results first; the sort is stable so each group keeps its ranking
+    fused = fused
+      .sort((a, b) => Number(b.relevant) - Number(a.relevant) || Number(Boolean(b.languageMatch)) - Number(Boolean(a.languageMatch)))
+      .slice(0, limit);
+    const relevantCount = fused.filter(result => result.relevant).length;
+    
+    console.log(`🎯 Hybrid search found ${relevantCount} relevant of ${fused.length} results (lexical weight ${weights.lexical}, semantic weight ${weights.semantic}${language ? `, preferring ${language}` : ''})`);
+    return fused;
   } catch (error) {
+    // Unrelated chunks would only invite the model to make something up
     console.error('Error searching articles:', error);
-    
-    // Final fallback - return all chunks if search fails
-    console.log(`🆘 Search failed, returning all ${articleChunks.length} chunks as fallback`);
-    return articleChunks.slice(0, limit);
+    return [];
   }
 }
 
 /**
- * Get all stored articles
+ * Search for article chunks that clear the relevance cutoff
  */
-export function getAllArticles(): Article[] {
-  return Array.from(articleStore.values());
+export async function searchArticles(query: string, limit: number = 5, options: SearchOptions = {}): Promise<ArticleChunk[]> {
+  const results = await searchChunks(query, limit, options);
+  return results.filter(result => result.relevant).map(result => result.chunk);
+}
+
+// One vector per article embedded with the active model: the normalised mean of its
+// chunks' vectors, so every section of the article counts equally
+function getArticleVectors(index: TenantIndex): Map<string, ArticleVector> {
+  const embedder = getEmbeddingProvider();
+  if (index.articleVectors && index.articleVectors.model === embedder.model) {
+    return index.articleVectors.byArticle;
+  }
+
+  const sums = new Map<string, ArticleVector>();
+  for (const chunk of index.chunks) {
+    if (!embeddedWith(index, chunk, embedder)) continue;
+    const stored = (index.vectors && getVector(index.vectors.hnsw, chunk.id)) || chunk.embedding;
+    if (!stored) continue;
+
+    const vector = normalise(stored);
+    const entry = sums.get(chunk.articleId);
+    if (!entry) {
+      sums.set(chunk.articleId, { vector, name: chunk.articleName, url: chunk.url, language: chunk.language });
+    } else if (entry.vector.length === vector.length) {
+      vector.forEach((value, i) => {
+        entry.vector[i] += value;
+      });
+    }
+  }
+
+  const byArticle = new Map<string, ArticleVector>();
+  sums.forEach((entry, articleId) => byArticle.set(articleId, { ...entry, vector: normalise(entry.vector) }));
+  index.articleVectors = { model: embedder.model, byArticle };
+  return byArticle;
+}
+
+/**
+ * Articles closest in meaning to the given ones, by their article-level vectors. Used to
+ * point at further reading beyond the chunks an answer was built from.
+ */
+export async function findRelatedArticles(
+  articleIds: string[],
+  limit: number = 3,
+  options: RelatedArticleOptions = {}
+): Promise<RelatedArticle[]> {
+  const index = indexFor(options.tenant);
+  await loadChunksFromStorage(index);
+
+  const byArticle = getArticleVectors(index);
+  const start = articleIds.map(id => byArticle.get(id)).filter((entry): entry is ArticleVector => Boolean(entry));
+  if (start.length === 0) return [];
+
+  // Several starting articles are combined into the topic they share
+  const dimensions = start[0].vector.length;
+  const query = new Float32Array(dimensions);
+  start.filter(entry => entry.vector.length === dimensions).forEach(entry => {
+    entry.vector.forEach((value, i) => {
+      query[i] += value;
+    });
+  });
+  const target = normalise(query);
+
+  const { filter } = options;
+  const allowed = filter ? new Set(index.chunks.filter(chunk => matchesFilter(chunk, filter)).map(chunk => chunk.articleId)) : null;
+  const skipped = new Set([...articleIds, ...(options.exclude || [])]);
+  const minSimilarity = MIN_RELATED_SIMILARITY ?? getSimilarityCutoff();
+
+  const related: RelatedArticle[] = [];
+  byArticle.forEach((entry, articleId) => {
+    if (skipped.has(articleId) || (allowed && !allowed.has(articleId)) || entry.vector.length !== dimensions) return;
+    let similarity = 0;
+    for (let i = 0; i < dimensions; i++) similarity += target[i] * entry.vector[i];
+    if (similarity < minSimilarity) return;
+    related.push({ articleId, name: entry.name, url: entry.url, similarity, language: entry.language });
+  });
+
+  const { language } = options;
+  return related
+    .sort((a, b) => b.similarity - a.similarity)
+    // Stable, so each language group keeps its similarity order
+    .sort((a, b) => (language ? Number(b.language === language) - Number(a.language === language) : 0))
+    .slice(0, limit);
 }
 
 /**
- * Get article by ID
+ * Load a tenant's persisted index into memory if this instance hasn't yet
  */
-export function getArticle(id: string): Article | undefined {
-  return articleStore.get(id);
+export async function loadIndex(tenant?: string): Promise<void> {
+  await loadChunksFromStorage(indexFor(tenant));
 }
 
 /**
- * Clear all stored articles (useful for testing)
+ * Get all of a tenant's stored articles
  */
-export function clearArticles(): void {
-  articleStore.clear();
-  articleChunks = [];
+export function getAllArticles(tenant?: string): Article[] {
+  return Array.from(indexFor(tenant).articles.values());
 }
 
 /**
- * Get storage statistics
+ * Get a tenant's article by ID
  */
-export function getStorageStats() {
+export function getArticle(id: string, tenant?: string): Article | undefined {
+  return indexFor(tenant).articles.get(id);
+}
+
+/**
+ * Clear a tenant's stored articles (useful for testing)
+ */
+export function clearArticles(tenant?: string): void {
+  const index = indexFor(tenant);
+  index.articles.clear();
+  index.chunks = [];
+  index.lexical = null;
+  index.articleVectors = null;
+  index.vectors = null;
+  index.unsavedArticleIds.clear();
+  index.clearedSinceLoad = true;
+}
+
+/**
+ * Empty a tenant's index and persist the empty snapshot. The next search fetches a few
+ * articles on demand until an ingest rebuilds it.
+ */
+export async function purgeIndex(tenant?: string): Promise<{ articles: number; chunks: number }> {
+  const index = indexFor(tenant);
+  await loadChunksFromStorage(index);
+
+  const purged = { articles: index.articles.size, chunks: index.chunks.length };
+  clearArticles(tenant);
+  await saveChunksToStorage(index);
+  console.log(`🗑️ Purged ${purged.articles} articles and ${purged.chunks} chunks from tenant ${index.tenantId}`);
+  return purged;
+}
+
+// Model and dimensions of a chunk's vector, wherever it's kept
+function chunkEmbeddingOf(index: TenantIndex, chunk: ArticleChunk): { model: string; dimensions: number } | null {
+  if (index.vectors && hasVector(index.vectors.hnsw, chunk.id)) {
+    return { model: index.vectors.model, dimensions: index.vectors.hnsw.dimensions };
+  }
+  if (chunk.embedding) {
+    return { model: chunk.embeddingModel || LEGACY_EMBEDDING_MODEL, dimensions: chunk.embedding.length };
+  }
+  return null;
+}
+
+/**
+ * How a chunk is embedded: 'current' when searchable with the active provider, 'stale'
+ * when its vector came from another model and needs a re-ingest, 'missing' without one
+ */
+export function getChunkEmbedding(chunk: ArticleChunk, tenant?: string): {
+  status: 'current' | 'stale' | 'missing';
+  model: string | null;
+  dimensions: number | null;
+} {
+  const index = indexFor(tenant);
+  const embedding = chunkEmbeddingOf(index, chunk);
+  if (!embedding) return { status: 'missing', model: null, dimensions: null };
+  return { status: embeddedWith(index, chunk, getEmbeddingProvider()) ? 'current' : 'stale', ...embedding };
+}
+
+/**
+ * Get storage statistics for a tenant's index
+ */
+export function getStorageStats(tenant?: string) {
+  const index = indexFor(tenant);
+  const { vectors } = index;
+  const embedder = getEmbeddingProvider();
+  const embeddingModels: Record<string, number> = {};
+  index.chunks.forEach(chunk => {
+    const embedding = chunkEmbeddingOf(index, chunk);
+    if (!embedding) return;
+    const model = `${embedding.model}@${embedding.dimensions}`;
+    embeddingModels[model] = (embeddingModels[model] || 0) + 1;
+  });
+
+  // Articles and chunks per knowledge source
+  const sources: Record<string, { articles: number; chunks: number }> = {};
+  index.articles.forEach(article => {
+    const sourceId = article.sourceId || 'helpscout';
+    sources[sourceId] = sources[sourceId] || { articles: 0, chunks: 0 };
+    sources[sourceId].articles++;
+    sources[sourceId].chunks += article.chunks.length;
+  });
+
   return {
-    totalArticles: articleStore.size,
-    totalChunks: articleChunks.length,
-    chunksWithEmbeddings: articleChunks.filter(chunk => chunk.embedding).length,
+    tenant: index.tenantId,
+    totalArticles: index.articles.size,
+    totalChunks: index.chunks.length,
+    chunksWithEmbeddings: index.chunks.filter(chunk => hasEmbedding(index, chunk)).length,
+    sources,
+    embeddingProvider: { type: embedder.type, model: embedder.model, dimensions: embedder.dimensions },
+    // Chunks per model@dimensions; more than one entry means a re-ingest is pending
+    embeddingModels,
+    vectorIndex: vectors && {
+      model: vectors.model,
+      dimensions: vectors.hnsw.dimensions,
+      vectors: liveVectorCount(vectors.hnsw),
+      deletedVectors: vectors.hnsw.deleted.size,
+      search: liveVectorCount(vectors.hnsw) > EXACT_SEARCH_MAX_VECTORS ? 'hnsw' : 'exact',
+    },
+    // Shared by all tenants
+    embeddingCache: getEmbeddingCacheStats(),
+    indexVersion: index.loadedVersion,
+    storageBackend: getStorageBackend().name,
   };
 }
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { addDocument, createBm25Index, removeDocument, searchBm25, tokenizeForSearch } from './bm25';
+
+describe('tokenizeForSearch', () => {
+  test('lowercases whole words and drops common function words', () => {
+    expect(tokenizeForSearch('How do I connect the Happy App?')).toEqual(['connect', 'happy', 'app']);
+  });
+
+  test('keeps codes whole as well as their parts', () => {
+    expect(tokenizeForSearch('Error E-1042 on sku_88.2')).toEqual(['error', 'e-1042', 'e', '1042', 'sku_88.2', 'sku', '88', '2']);
+  });
+
+  test('keeps letters outside English', () => {
+    expect(tokenizeForSearch('Größe ändern')).toEqual(['größe', 'ändern']);
+  });
+});
+
+describe('searchBm25', () => {
+  function indexOf(documents: Record<string, string>) {
+    const index = createBm25Index();
+    Object.entries(documents).forEach(([id, text]) => addDocument(index, { id, text }));
+    return index;
+  }
+
+  test('matches whole terms, not parts of words', () => {
+    const index = indexOf({
+      happy: 'Keep your customers happy with quick replies.',
+      app: 'Install the mobile app from the store.',
+    });
+
+    expect(searchBm25(index, 'app').map(hit => hit.id)).toEqual(['app']);
+  });
+
+  test('ranks the document with an exact error code first', () => {
+    const index = indexOf({
+      nearby: 'Error E-1043 means the export failed. Retry the export.',
+      number: 'Sync error 1042 can appear after an outage of more than 1042 seconds.',
+      exact: 'Error E-1042 means the sync token expired. Reconnect the integration.',
+      general: 'Errors and how to fix them.',
+    });
+
+    const hits = searchBm25(index, 'What does error E-1042 mean?');
+    expect(hits[0].id).toBe('exact');
+    expect(hits.map(hit => hit.id)).not.toContain('general');
+  });
+
+  test('reports the share of the query each document covers', () => {
+    const index = indexOf({
+      both: 'Export invoices as CSV.',
+      one: 'Invoices are sent monthly.',
+      none: 'Change your password.',
+    });
+
+    const hits = searchBm25(index, 'export invoices');
+    expect(hits.map(hit => hit.id)).toEqual(['both', 'one']);
+    expect(hits[0].coverage).toBeCloseTo(1);
+    expect(hits[1].coverage).toBeGreaterThan(0);
+    expect(hits[1].coverage).toBeLessThan(1);
+  });
+
+  test('scores only accepted documents and forgets removed ones', () => {
+    const index = indexOf({ a: 'Export invoices.', b: 'Export contacts.', c: 'Export reports.' });
+
+    expect(searchBm25(index, 'export', 10, id => id !== 'b').map(hit => hit.id).sort()).toEqual(['a', 'c']);
+    removeDocument(index, 'a');
+    expect(searchBm25(index, 'invoices')).toEqual([]);
+    expect(searchBm25(index, 'export', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * In-memory BM25 index over chunk text, used alongside the vectors so exact terms
+ * (product names, error codes, SKUs) still rank well.
+ */
+
+export interface Bm25Options {
+  k1: number;
+  b: number;
+}
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+  // Share of the query's IDF weight the document matched (0-1); unlike the score,
+  // this is comparable across queries
+  coverage: number;
+}
+
+interface IndexedDocument {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+export interface Bm25Index {
+  options: Bm25Options;
+  documents: Map<string, IndexedDocument>;
+  // Term -> ids of documents containing it
+  postings: Map<string, Set<string>>;
+  totalLength: number;
+}
+
+export const DEFAULT_BM25_OPTIONS: Bm25Options = { k1: 1.2, b: 0.75 };
+
+// Only the most common English function words; anything domain-specific stays searchable
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'if', 'in', 'is', 'it', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase terms. Codes joined by "-", "_" or "." (e.g. "E-1042",
+ * "sku_88.2") are kept whole as well as split into their parts.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) || [];
+
+  for (const word of words) {
+    const parts = word.split(/[-_.]/);
+    if (parts.length > 1) {
+      terms.push(word);
+    }
+    for (const part of parts) {
+      if (!STOP_WORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+  return terms;
+}
+
+export function createBm25Index(options: Partial<Bm25Options> = {}): Bm25Index {
+  return {
+    options: { ...DEFAULT_BM25_OPTIONS, ...options },
+    documents: new Map(),
+    postings: new Map(),
+    totalLength: 0,
+  };
+}
+
+/**
+ * Add (or replace) a document
+ */
+export function addDocument(index: Bm25Index, document: Bm25Document): void {
+  removeDocument(index, document.id);
+
+  const terms = tokenizeForSearch(document.text);
+  const termFrequencies = new Map<string, number>();
+  terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+
+  termFrequencies.forEach((_, term) => {
+    let ids = index.postings.get(term);
+    if (!ids) {
+      ids = new Set();
+      index.postings.set(term, ids);
+    }
+    ids.add(document.id);
+  });
+
+  index.documents.set(document.id, { length: terms.length, termFrequencies });
+  index.totalLength += terms.length;
+}
+
+export function removeDocument(index: Bm25Index, id: string): void {
+  const existing = index.documents.get(id);
+  if (!existing) return;
+
+  existing.termFrequencies.forEach((_, term) => {
+    const ids = index.postings.get(term);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) index.postings.delete(term);
+  });
+
+  index.documents.delete(id);
+  index.totalLength -= existing.length;
+}
+
+/**
+ * Score documents containing at least one query term, best first. Collection
+ * statistics cover every document, but only those passing `accept` are scored.
+ */
+export function searchBm25(index: Bm25Index, query: string, limit: number = 10, accept?: (id: string) => boolean): Bm25Hit[] {
+  const documentCount = index.documents.size;
+  if (documentCount === 0) return [];
+
+  const { k1, b } = index.options;
+  const averageLength = index.totalLength / documentCount || 1;
+  const scores = new Map<string, number>();
+  const matchedWeight = new Map<string, number>();
+  let queryWeight = 0;
+
+  for (const term of Array.from(new Set(tokenizeForSearch(query)))) {
+    const ids = index.postings.get(term);
+    const frequency = ids ? ids.size : 0;
+
+    // Lucene's IDF variant, which stays positive for terms in most documents
+    const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+    queryWeight += idf;
+    if (!ids) continue;
+
+    ids.forEach(id => {
+      if (accept && !accept(id)) return;
+      const document = index.documents.get(id)!;
+      const tf = document.termFrequencies.get(term)!;
+      const score = idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (document.length / averageLength)));
+      scores.set(id, (scores.get(id) || 0) + score);
+      matchedWeight.set(id, (matchedWeight.get(id) || 0) + idf);
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score, coverage: queryWeight > 0 ? matchedWeight.get(id)! / queryWeight : 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
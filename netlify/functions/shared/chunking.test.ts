@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { chunkDocument, chunkText, decodeEntities } from './chunking';
+import { countTokens } from './tokenizer';
+
+describe('chunkDocument', () => {
+  test('a merged chunk keeps the heading path of its larger part', () => {
+    const steps = Array.from({ length: 30 }, (_, i) => `Step ${i + 1}: open the dashboard and confirm the setting.`).join(' ');
+    const chunks = chunkDocument(`# Intro\n\nHello.\n\n# Setup\n\n${steps}`, { maxTokens: 800, minChunkTokens: 50 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headings).toEqual(['Setup']);
+    expect(chunks[0].anchor).toBe('setup');
+    expect(chunks[0].text).toContain('Intro\n\nHello.');
+  });
+
+  test('a small trailing section merges into the larger section before it', () => {
+    const body = Array.from({ length: 30 }, (_, i) => `Line ${i + 1} explains the billing cycle in detail.`).join(' ');
+    const chunks = chunkDocument(`# Billing\n\n${body}\n\n## Notes\n\nSee also invoices.`, { maxTokens: 800, minChunkTokens: 50 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headings).toEqual(['Billing']);
+    expect(chunks[0].anchor).toBe('billing');
+  });
+
+  test('chunks large enough on their own keep their own sections', () => {
+    const paragraph = (topic: string) => Array.from({ length: 20 }, (_, i) => `${topic} detail ${i + 1} matters for the setup.`).join(' ');
+    const chunks = chunkDocument(`# First\n\n${paragraph('First')}\n\n# Second\n\n${paragraph('Second')}`, { minChunkTokens: 50 });
+
+    expect(chunks.map(chunk => chunk.anchor)).toEqual(['first', 'second']);
+  });
+});
+
+describe('HTML articles', () => {
+  test('keeps lists and tables as text and names sections by their ids and anchors', () => {
+    const html = '<h2 id="install-guide">Install</h2><p>Download &amp; run the installer.</p>\n'
+      + '<h2><a name="setup"></a>Set up</h2>\n'
+      + '<ol><li>Open <strong>Settings</strong></li><li>Choose a plan<ul><li>Monthly</li></ul></li></ol>\n'
+      + '<table><tr><th>Plan</th><th>Price</th></tr><tr><td>Basic</td><td>&#8364;5</td></tr></table>';
+
+    expect(chunkDocument(html, { minChunkTokens: 0 })).toEqual([
+      { text: 'Install\n\nDownload & run the installer.', headings: ['Install'], anchor: 'install-guide' },
+      { text: 'Set up\n\n1. Open Settings\n2. Choose a plan\n  - Monthly\n\nPlan | Price\nBasic | €5', headings: ['Set up'], anchor: 'setup' },
+    ]);
+  });
+
+  test('numbers repeated headings without ids the way GitHub does', () => {
+    const chunks = chunkDocument('<h2>FAQ</h2><p>Billing questions.</p><h2>FAQ</h2><p>Account questions.</p>', { minChunkTokens: 0 });
+
+    expect(chunks.map(chunk => chunk.anchor)).toEqual(['faq', 'faq-1']);
+  });
+
+  test('decodes named, decimal and hex entities and leaves unknown ones', () => {
+    expect(decodeEntities('Terms &amp; conditions &ndash; &#169; 2025 &#x2122; &bogus;')).toBe('Terms & conditions – © 2025 ™ &bogus;');
+  });
+});
+
+describe('chunk sizes', () => {
+  const sentences = (count: number) => Array.from({ length: count }, (_, i) => `Sentence ${i + 1} describes one more setting in detail.`).join(' ');
+
+  test('chunkText measures chunks in tokens and breaks between sentences', () => {
+    const pieces = chunkText(sentences(60), 100, 20);
+
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece => {
+      expect(countTokens(piece)).toBeLessThanOrEqual(100);
+      expect(piece).toMatch(/^Sentence \d+ .*detail\.$/);
+    });
+  });
+
+  test('chunkText splits a single huge word by tokens', () => {
+    const word = 'x'.repeat(1000);
+    const pieces = chunkText(word, 50, 0);
+
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece => expect(countTokens(piece)).toBeLessThanOrEqual(50));
+    expect(pieces.join('')).toBe(word);
+  });
+
+  test('chunks never exceed maxTokens, heading trail included', () => {
+    const chunks = chunkDocument(`# Billing\n\n## Invoices\n\n${sentences(40)}\n\n## Refunds\n\n${sentences(40)}`, { maxTokens: 120, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach(chunk => expect(countTokens(chunk.text)).toBeLessThanOrEqual(120));
+  });
+});
+
+describe('blocks kept whole', () => {
+  test('a paragraph that doesn\'t fit after the previous one moves to the next chunk whole', () => {
+    const first = 'First paragraph. ' + 'It explains exporting invoices in detail. '.repeat(5).trim();
+    const second = 'Second paragraph. ' + 'It explains importing contacts in detail. '.repeat(5).trim();
+    const chunks = chunkDocument(`${first}\n\n${second}`, { maxTokens: 60, overlapTokens: 0, minChunkTokens: 0 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([first, second]);
+  });
+
+  test('long lists and tables are split between items and rows, never inside them', () => {
+    const items = Array.from({ length: 30 }, (_, i) => `- Step ${i + 1}: open the dashboard and confirm the setting`);
+    const rows = Array.from({ length: 30 }, (_, i) => `| Plan ${i + 1} | ${i + 1} seats | monthly billing |`);
+    const chunks = chunkDocument(`# Setup\n\n${items.join('\n')}\n\n# Plans\n\n| Plan | Seats | Billing |\n|---|---|---|\n${rows.join('\n')}`, {
+      maxTokens: 80,
+      overlapTokens: 0,
+      minChunkTokens: 0,
+    });
+
+    const lines = chunks.flatMap(chunk => chunk.text.split('\n').slice(2));
+    const wholeRows = ['Plan | Seats | Billing', ...rows.map(row => row.replace(/^\| | \|$/g, ''))];
+    expect(chunks.length).toBeGreaterThan(4);
+    expect(lines).toEqual([...items, ...wholeRows]);
+    chunks.forEach(chunk => expect(countTokens(chunk.text)).toBeLessThanOrEqual(80));
+  });
+});
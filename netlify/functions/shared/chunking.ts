@@ -0,0 +1,608 @@
+/**
+ * Structure-aware chunking for article content.
+ *
+ * Article text is parsed into blocks (headings, paragraphs, lists, tables, code) and
+ * chunks are built from whole blocks within a section, so list steps and table rows
+ * are never cut mid-way. Each chunk is prefixed with its heading trail and carries
+ * the anchor of its section for deep links.
+ */
+
+import { countTokens, getTokenizer } from './tokenizer';
+
+export interface DocumentChunk {
+  text: string;
+  headings: string[];
+  anchor?: string;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+  minChunkTokens?: number;
+  // Only used to warn about unusually long articles; chunks are never dropped
+  maxChunksPerArticle?: number;
+  // Embedding model whose tokenizer measures chunk sizes
+  model?: string;
+}
+
+export const DEFAULT_CHUNKING = {
+  maxTokens: 800,
+  overlapTokens: 100,
+  minChunkTokens: 50,
+  maxChunksPerArticle: 50,
+};
+
+type BlockType = 'heading' | 'paragraph' | 'list' | 'table' | 'code';
+
+interface Block {
+  type: BlockType;
+  // Pieces a chunk may be split between; each is kept whole when it fits
+  units: string[];
+  level?: number;
+  anchor?: string;
+}
+
+interface Section {
+  headings: string[];
+  anchor?: string;
+  blocks: Block[];
+}
+
+const MIN_CHUNK_SIZE_TOKENS = 50;
+const MAX_EMBEDDING_INPUT_TOKENS = 8191; // OpenAI embedding models' input limit
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+/**
+ * Decode HTML entities (named, decimal and hex)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : match;
+    }
+    const named = NAMED_ENTITIES[code.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+/**
+ * GitHub-style heading slug, used when a heading has no id of its own
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+export function looksLikeHtml(text: string): boolean {
+  return /<(p|div|h[1-6]|ul|ol|li|table|br|span|a|strong|em|section)\b[^>]*>/i.test(text);
+}
+
+const PARAGRAPH_TAGS = new Set([
+  'p', 'div', 'blockquote', 'section', 'article', 'header', 'footer', 'aside',
+  'dd', 'dt', 'dl', 'figure', 'figcaption', 'hr', 'main', 'nav',
+]);
+
+function parseHtmlBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  const tokenPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>|([^<]+)|</g;
+
+  let text = '';
+  let heading: { level: number; anchor?: string } | null = null;
+  const lists: Array<{ ordered: boolean; counter: number }> = [];
+  let listItems: string[] = [];
+  let itemPrefix: string | null = null;
+  let table: string[] | null = null;
+  let row: string[] | null = null;
+  let pre: string | null = null;
+  let skipDepth = 0;
+
+  const flushListItem = () => {
+    const itemText = normalizeWhitespace(text);
+    if (itemPrefix !== null && itemText) {
+      listItems.push(itemPrefix + itemText.replace(/\n/g, ' '));
+      // Further text in the same item (after a nested list) continues it
+      itemPrefix = '  '.repeat(lists.length);
+    }
+    text = '';
+  };
+
+  const flushText = () => {
+    if (lists.length > 0) {
+      flushListItem();
+      return;
+    }
+    if (row !== null) {
+      return; // Cell text is collected when the cell closes
+    }
+    const paragraph = normalizeWhitespace(text);
+    if (paragraph) {
+      blocks.push({ type: 'paragraph', units: [paragraph] });
+    }
+    text = '';
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, closing, rawTag, attributes, content] = match;
+
+    if (token.startsWith('<!--')) continue;
+
+    if (content !== undefined || token === '<') {
+      if (skipDepth > 0) continue;
+      if (pre !== null) {
+        pre += decodeEntities(content ?? token);
+      } else {
+        text += decodeEntities(content ?? token);
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+
+    if (tag === 'script' || tag === 'style') {
+      skipDepth += isClosing ? -1 : 1;
+      skipDepth = Math.max(0, skipDepth);
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (tag === 'pre') {
+      if (!isClosing) {
+        flushText();
+        pre = '';
+      } else if (pre !== null) {
+        const code = pre.replace(/^\n+|\s+$/g, '');
+        if (code) {
+          blocks.push({ type: 'code', units: code.split(/\n{2,}/) });
+        }
+        pre = null;
+      }
+      continue;
+    }
+    if (pre !== null) {
+      if (tag === 'br') pre += '\n';
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      if (!isClosing) {
+        flushText();
+        heading = { level: Number(tag[1]), anchor: readAttribute(attributes, 'id') };
+      } else if (heading) {
+        const headingText = normalizeWhitespace(text).replace(/\n/g, ' ');
+        if (headingText) {
+          blocks.push({ type: 'heading', units: [headingText], level: heading.level, anchor: heading.anchor });
+        }
+        heading = null;
+        text = '';
+      }
+      continue;
+    }
+
+    // Anchors inside a heading (<h2><a name="setup"></a>Setup</h2>) name the section
+    if (heading && !heading.anchor && !isClosing) {
+      heading.anchor = readAttribute(attributes, 'id') || readAttribute(attributes, 'name');
+    }
+
+    if (tag === 'br') {
+      text += '\n';
+    } else if (PARAGRAPH_TAGS.has(tag)) {
+      flushText();
+    } else if (tag === 'ul' || tag === 'ol') {
+      if (!isClosing) {
+        if (lists.length === 0) flushText();
+        else flushListItem();
+        const start = Number(readAttribute(attributes, 'start'));
+        lists.push({ ordered: tag === 'ol', counter: Number.isFinite(start) && start > 0 ? start - 1 : 0 });
+      } else if (lists.length > 0) {
+        flushListItem();
+        lists.pop();
+        itemPrefix = lists.length > 0 ? '  '.repeat(lists.length) : null;
+        if (lists.length === 0 && listItems.length > 0) {
+          blocks.push({ type: 'list', units: listItems });
+          listItems = [];
+        }
+      }
+    } else if (tag === 'li' && lists.length > 0) {
+      flushListItem();
+      if (!isClosing) {
+        const list = lists[lists.length - 1];
+        list.counter++;
+        itemPrefix = '  '.repeat(lists.length - 1) + (list.ordered ? `${list.counter}. ` : '- ');
+      }
+    } else if (tag === 'table') {
+      if (!isClosing) {
+        flushText();
+        table = [];
+      } else if (table !== null) {
+        if (table.length > 0) {
+          blocks.push({ type: 'table', units: table });
+        }
+        table = null;
+      }
+    } else if (tag === 'tr') {
+      if (!isClosing) {
+        row = [];
+        text = '';
+      } else if (row !== null) {
+        if (row.some(cell => cell)) {
+          if (table) table.push(row.join(' | '));
+          else blocks.push({ type: 'paragraph', units: [row.join(' | ')] });
+        }
+        row = null;
+      }
+    } else if ((tag === 'td' || tag === 'th') && row !== null) {
+      if (isClosing) {
+        row.push(normalizeWhitespace(text).replace(/\n/g, ' '));
+      }
+      text = '';
+    }
+  }
+
+  flushListItem();
+  if (listItems.length > 0) {
+    blocks.push({ type: 'list', units: listItems });
+  }
+  if (table && table.length > 0) {
+    blocks.push({ type: 'table', units: table });
+  }
+  flushText();
+
+  return blocks;
+}
+
+// Strip inline Markdown so chunks read as prose
+function cleanMarkdownInline(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+function parseMarkdownBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let list: string[] = [];
+  let table: string[] = [];
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', units: [cleanMarkdownInline(paragraph.join(' '))] });
+      paragraph = [];
+    }
+    if (list.length > 0) {
+      blocks.push({ type: 'list', units: list });
+      list = [];
+    }
+    if (table.length > 0) {
+      blocks.push({ type: 'table', units: table });
+      table = [];
+    }
+  };
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (code === null) {
+        flush();
+        code = [];
+      } else {
+        if (code.length > 0) blocks.push({ type: 'code', units: code.join('\n').split(/\n{2,}/) });
+        code = null;
+      }
+      continue;
+    }
+    if (code !== null) {
+      code.push(line);
+      continue;
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const listMatch = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+
+    if (headingMatch) {
+      flush();
+      const explicitId = headingMatch[2].match(/\s*\{#([\w-]+)\}$/);
+      const headingText = cleanMarkdownInline(headingMatch[2].replace(/\s*\{#[\w-]+\}$/, ''));
+      blocks.push({ type: 'heading', units: [headingText], level: headingMatch[1].length, anchor: explicitId ? explicitId[1] : undefined });
+    } else if (listMatch) {
+      if (paragraph.length > 0 || table.length > 0) flush();
+      const depth = Math.floor(listMatch[1].replace(/\t/g, '  ').length / 2);
+      const marker = /\d/.test(listMatch[2]) ? `${parseInt(listMatch[2], 10)}. ` : '- ';
+      list.push('  '.repeat(depth) + marker + cleanMarkdownInline(listMatch[3]));
+    } else if (/^\s*\|/.test(line)) {
+      if (paragraph.length > 0 || list.length > 0) flush();
+      // Skip the |---|---| separator row
+      if (!/^\s*\|?[\s:|-]+\|?\s*$/.test(line)) {
+        table.push(line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cleanMarkdownInline(cell)).join(' | '));
+      }
+    } else if (!line.trim()) {
+      flush();
+    } else if (list.length > 0 && /^\s+/.test(line)) {
+      // Indented continuation of the previous list item
+      list[list.length - 1] += ` ${cleanMarkdownInline(line)}`;
+    } else {
+      if (list.length > 0 || table.length > 0) flush();
+      paragraph.push(line.trim());
+    }
+  }
+
+  if (code !== null && (code as string[]).length > 0) {
+    blocks.push({ type: 'code', units: (code as string[]).join('\n').split(/\n{2,}/) });
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Parse HTML or Markdown/plain text into structural blocks
+ */
+function parseBlocks(content: string): Block[] {
+  return looksLikeHtml(content) ? parseHtmlBlocks(content) : parseMarkdownBlocks(content);
+}
+
+function groupSections(blocks: Block[]): Section[] {
+  const sections: Section[] = [];
+  const trail: Array<{ level: number; text: string; anchor?: string }> = [];
+  const usedAnchors = new Map<string, number>();
+  let current: Section = { headings: [], blocks: [] };
+
+  for (const block of blocks) {
+    if (block.type !== 'heading') {
+      current.blocks.push(block);
+      continue;
+    }
+
+    if (current.blocks.length > 0) {
+      sections.push(current);
+    }
+
+    while (trail.length > 0 && trail[trail.length - 1].level >= block.level!) {
+      trail.pop();
+    }
+
+    // Headings without an id get a slug; repeated slugs are numbered like GitHub does
+    let anchor = block.anchor;
+    if (!anchor) {
+      const slug = slugify(block.units[0]);
+      const seen = usedAnchors.get(slug) || 0;
+      usedAnchors.set(slug, seen + 1);
+      anchor = slug && seen > 0 ? `${slug}-${seen}` : slug || undefined;
+    }
+
+    trail.push({ level: block.level!, text: block.units[0], anchor });
+    current = { headings: trail.map(item => item.text), anchor, blocks: [] };
+  }
+
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+interface SizedPiece {
+  text: string;
+  tokens: number;
+}
+
+function resolveLimits(options: ChunkOptions) {
+  const maxTokens = Math.max(MIN_CHUNK_SIZE_TOKENS, Math.min(options.maxTokens || DEFAULT_CHUNKING.maxTokens, MAX_EMBEDDING_INPUT_TOKENS));
+  // Overlap can't exceed a fifth of the chunk or chunks would mostly repeat each other
+  const overlapTokens = Math.max(0, Math.min(options.overlapTokens ?? DEFAULT_CHUNKING.overlapTokens, Math.floor(maxTokens * 0.2)));
+  const minChunkTokens = Math.max(0, Math.min(options.minChunkTokens ?? DEFAULT_CHUNKING.minChunkTokens, maxTokens));
+  return { maxTokens, overlapTokens, minChunkTokens };
+}
+
+/**
+ * Split content into structure-aware chunks, each prefixed with its heading trail.
+ * Sizes are measured in tokens of the embedding model and nothing is ever dropped.
+ */
+export function chunkDocument(content: string, options: ChunkOptions = {}): DocumentChunk[] {
+  if (!content || typeof content !== 'string' || content.trim().length === 0) {
+    return [];
+  }
+
+  const { maxTokens, overlapTokens, minChunkTokens } = resolveLimits(options);
+  const count = (text: string) => countTokens(text, options.model);
+  const chunks: Array<DocumentChunk & { tokens: number }> = [];
+
+  for (const section of groupSections(parseBlocks(content))) {
+    const prefix = section.headings.length > 0 ? `${section.headings.join(' > ')}\n\n` : '';
+    const prefixTokens = prefix ? count(prefix) : 0;
+    // A very long heading trail still leaves at least half the chunk for content
+    const budget = Math.max(maxTokens - prefixTokens, Math.floor(maxTokens / 2));
+
+    // Flatten blocks to units, remembering which ones start a new block
+    const units: Array<SizedPiece & { startsBlock: boolean }> = [];
+    for (const block of section.blocks) {
+      block.units.forEach((unit, index) => {
+        const tokens = count(unit);
+        // Units that can't fit on their own fall back to sentence-boundary splitting
+        const pieces = tokens > budget ? chunkText(unit, budget, overlapTokens, options.model) : [unit];
+        pieces.forEach((piece, pieceIndex) => units.push({
+          text: piece,
+          tokens: pieces.length === 1 ? tokens : count(piece),
+          startsBlock: index === 0 && pieceIndex === 0,
+        }));
+      });
+    }
+
+    let body: SizedPiece[] = [];
+    let bodyTokens = 0;
+
+    const emit = () => {
+      const text = body.map(piece => piece.text).join('').trim();
+      if (text) {
+        chunks.push({ text: prefix + text, headings: section.headings, anchor: section.anchor, tokens: prefixTokens + count(text) });
+      }
+    };
+
+    for (const unit of units) {
+      // Separators are a single token in the OpenAI encodings
+      if (body.length > 0 && bodyTokens + unit.tokens + 1 > budget) {
+        emit();
+        // Carry short trailing units over so consecutive chunks share some context
+        const carry: SizedPiece[] = [];
+        let carryTokens = 0;
+        for (let i = body.length - 1; i > 0 && carryTokens + body[i].tokens <= overlapTokens; i--) {
+          carry.unshift(body[i]);
+          carryTokens += body[i].tokens;
+        }
+        body = carryTokens + unit.tokens + 1 <= budget ? carry : [];
+        bodyTokens = body.length > 0 ? carryTokens : 0;
+      }
+
+      const separator = body.length > 0 ? (unit.startsBlock ? '\n\n' : '\n') : '';
+      body.push({ text: separator + unit.text, tokens: unit.tokens + (separator ? 1 : 0) });
+      bodyTokens += unit.tokens + (separator ? 1 : 0);
+    }
+    emit();
+  }
+
+  return mergeSmallChunks(chunks, maxTokens, minChunkTokens).map(({ tokens, ...chunk }) => chunk);
+}
+
+// Fold chunks below the minimum into a neighbour when the result still fits. A merge can
+// span sections, so the merged chunk links to whichever part holds most of its text.
+function mergeSmallChunks<T extends DocumentChunk & { tokens: number }>(chunks: T[], maxTokens: number, minChunkTokens: number): T[] {
+  if (minChunkTokens <= 0) return chunks;
+
+  const merged: T[] = [];
+  for (const chunk of chunks) {
+    const previous = merged[merged.length - 1];
+    if (previous && (chunk.tokens < minChunkTokens || previous.tokens < minChunkTokens) && previous.tokens + chunk.tokens + 1 <= maxTokens) {
+      if (chunk.tokens > previous.tokens) {
+        previous.headings = chunk.headings;
+        previous.anchor = chunk.anchor;
+      }
+      previous.text = `${previous.text}\n\n${chunk.text}`;
+      previous.tokens += chunk.tokens + 1;
+      continue;
+    }
+    merged.push({ ...chunk });
+  }
+  return merged;
+}
+
+// Pack pieces (sentences or words) into chunks of at most maxTokens with trailing overlap
+function packPieces(pieces: string[], maxTokens: number, overlapTokens: number, model?: string): string[] {
+  const chunks: string[] = [];
+  let current: SizedPiece[] = [];
+  let currentTokens = 0;
+
+  const emit = () => {
+    const text = current.map(piece => piece.text).join('').trim();
+    if (text) chunks.push(text);
+  };
+
+  for (const text of pieces) {
+    const tokens = countTokens(text, model);
+
+    if (tokens > maxTokens) {
+      // A single sentence that doesn't fit is split by words, and a single huge "word" by tokens
+      emit();
+      current = [];
+      currentTokens = 0;
+      const words = text.match(/\S+\s*/g) || [];
+      chunks.push(...(words.length > 1 ? packPieces(words, maxTokens, 0, model) : splitByTokens(text, maxTokens, model)));
+      continue;
+    }
+
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      emit();
+      const carry: SizedPiece[] = [];
+      let carryTokens = 0;
+      for (let i = current.length - 1; i > 0 && carryTokens + current[i].tokens <= overlapTokens; i--) {
+        carry.unshift(current[i]);
+        carryTokens += current[i].tokens;
+      }
+      current = carryTokens + tokens <= maxTokens ? carry : [];
+      currentTokens = current.length > 0 ? carryTokens : 0;
+    }
+
+    current.push({ text, tokens });
+    currentTokens += tokens;
+  }
+  emit();
+
+  return chunks;
+}
+
+function splitByTokens(text: string, maxTokens: number, model?: string): string[] {
+  const tokenizer = getTokenizer(model);
+  const tokens = tokenizer.encode(text);
+  const pieces: string[] = [];
+  for (let start = 0; start < tokens.length; start += maxTokens) {
+    pieces.push(tokenizer.decode(tokens.slice(start, start + maxTokens)));
+  }
+  return pieces;
+}
+
+/**
+ * Chunks plain text into pieces of at most maxTokens (in the model's tokens),
+ * breaking at sentence and line boundaries with overlap between chunks
+ */
+export function chunkText(text: string, maxTokens: number = 800, overlapTokens: number = 100, model?: string): string[] {
+  // Validate inputs
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  // Clean the text
+  const cleanText = text.trim();
+  if (cleanText.length === 0) {
+    return [];
+  }
+
+  const limits = resolveLimits({ maxTokens, overlapTokens });
+  if (countTokens(cleanText, model) <= limits.maxTokens) {
+    return [cleanText];
+  }
+
+  // Sentences keep their trailing punctuation and whitespace so joining them restores the text
+  const sentences = cleanText.match(/[^.!?\n]+(?:[.!?]+|\n+|$)\s*|[.!?\n]+\s*/g) || [cleanText];
+  return packPieces(sentences, limits.maxTokens, limits.overlapTokens, model);
+}
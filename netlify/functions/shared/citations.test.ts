@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { extractCitations } from './citations';
+import { quietLogs, testChunk } from './testing';
+
+const chunks = [
+  testChunk('billing', 'Invoices are sent on the first day of each month. You can download them from the Billing page.'),
+  testChunk('export', 'To export invoices, open Reports and choose “Export as CSV”. Exports include every invoice from the last year.', { anchor: 'exporting' }),
+  testChunk('currency', 'The billing currency can only be changed by an account owner.'),
+];
+
+beforeEach(() => {
+  quietLogs();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('extractCitations', () => {
+  test('maps comma-separated and adjacent markers to the numbered blocks', () => {
+    const citations = extractCitations('Invoices arrive monthly [1]. Owners can export them [2, 3]. See also [3][1].', chunks);
+
+    expect(citations.map(citation => citation.number)).toEqual([1, 2, 3]);
+    expect(citations.map(citation => citation.articleId)).toEqual(['billing', 'export', 'currency']);
+    expect(citations[1].url).toBe('https://docs.example.com/export#exporting');
+  });
+
+  test('ignores markers for blocks that do not exist', () => {
+    const warn = jest.spyOn(console, 'warn');
+    const citations = extractCitations('Invoices arrive monthly [1][4]. Nothing else [0] [7].', chunks);
+
+    expect(citations.map(citation => citation.number)).toEqual([1]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('4'));
+  });
+
+  test('checks straight and curly quotes against the cited block', () => {
+    const citations = extractCitations(
+      'Invoices are "sent on the first day of each month" [1]. Choose “export as csv” under Reports [2]. Only "administrators" can change it [3].',
+      chunks,
+    );
+
+    expect(citations.map(citation => citation.quotes)).toEqual([
+      [{ text: 'sent on the first day of each month', verified: true }],
+      [{ text: 'export as csv', verified: true }],
+      [{ text: 'administrators', verified: false }],
+    ]);
+    expect(citations.map(citation => citation.verified)).toEqual([true, true, false]);
+  });
+
+  test('matches quotes trimmed with an ellipsis fragment by fragment', () => {
+    const [trimmed] = extractCitations('They are "sent on the first day … from the Billing page." [1]', chunks);
+    expect(trimmed.quotes[0].verified).toBe(true);
+    expect(trimmed.snippet).toContain('Invoices are sent on the first day');
+
+    const [reordered] = extractCitations('They are "sent on the first day...from the Reports page" [1]', chunks);
+    expect(reordered.quotes[0].verified).toBe(false);
+  });
+
+  test('gives a quote to whichever of the blocks cited together contains it', () => {
+    const [billing, exported] = extractCitations('Exports cover "every invoice from the last year" [1][2].', chunks);
+
+    expect(billing.quotes).toEqual([]);
+    expect(exported.quotes).toEqual([{ text: 'every invoice from the last year', verified: true }]);
+    expect(billing.verified && exported.verified).toBe(true);
+  });
+
+  test('treats a citation without quotes as verified', () => {
+    const [citation] = extractCitations('Only account owners can change the currency [3].', chunks);
+
+    expect(citation.quotes).toEqual([]);
+    expect(citation.verified).toBe(true);
+    expect(citation.snippet).toBe(chunks[2].text);
+  });
+});
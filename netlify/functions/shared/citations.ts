@@ -0,0 +1,154 @@
+import { ArticleChunk } from './articleStore';
+
+export interface CitedQuote {
+  text: string;
+  // Whether the quote appears word for word in the cited chunk
+  verified: boolean;
+}
+
+/**
+ * One numbered context block the answer cited with an `[n]` marker
+ */
+export interface Citation {
+  number: number;
+  chunkId: string;
+  articleId: string;
+  articleName: string;
+  url: string;
+  anchor?: string;
+  snippet: string;
+  quotes: CitedQuote[];
+  // False when any quote attributed to this block isn't in its text. A bare marker with no
+  // quotes only points at the block, so there is nothing to check and it stays true
+  verified: boolean;
+}
+
+// [1] or [2, 3]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// Straight or curly double quotes
+const QUOTE_PATTERN = /"([^"\n]{2,})"|“([^”\n]{2,})”/g;
+const SNIPPET_CONTEXT_CHARS = 80;
+const SNIPPET_MAX_CHARS = 200;
+
+// Compare text the way a reader would: ignoring case, spacing and typographic quotes
+function normaliseForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Models trim quotes with "..." and end them with the sentence's punctuation
+function quoteFragments(quote: string): string[] {
+  return quote
+    .split(/\.{3}|…/)
+    .map(fragment => normaliseForMatch(fragment).replace(/^[\s,;:.]+|[\s,;:.!?]+$/g, ''))
+    .filter(fragment => fragment.length > 0);
+}
+
+function quoteAppearsIn(quote: string, text: string): boolean {
+  const haystack = normaliseForMatch(text);
+  const fragments = quoteFragments(quote);
+  return fragments.length > 0 && fragments.every(fragment => haystack.includes(fragment));
+}
+
+// The chunk text around a verified quote, or its opening lines
+function snippetFor(chunk: ArticleChunk, quote?: string): string {
+  const text = chunk.text.replace(/\s+/g, ' ').trim();
+  if (quote) {
+    const fragment = quoteFragments(quote)[0];
+    // Same length as the text, so positions line up
+    const at = fragment ? normaliseForMatch(text).indexOf(fragment) : -1;
+    if (at !== -1) {
+      const start = Math.max(0, at - SNIPPET_CONTEXT_CHARS);
+      const end = Math.min(text.length, at + fragment.length + SNIPPET_CONTEXT_CHARS);
+      return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+    }
+  }
+  return text.length > SNIPPET_MAX_CHARS ? `${text.slice(0, SNIPPET_MAX_CHARS)}…` : text;
+}
+
+/**
+ * Map the `[n]` markers in an answer to the numbered context chunks (1-based) and check
+ * every quoted span against the chunks cited right after it. Markers for blocks that
+ * don't exist are ignored.
+ */
+export function extractCitations(answer: string, chunks: ArticleChunk[]): Citation[] {
+  const citations = new Map<number, Citation>();
+  let spanStart = 0;
+
+  // Adjacent markers like [2][3] cite the same text together
+  const groups: Array<{ numbers: number[]; start: number; end: number }> = [];
+  for (const match of Array.from(answer.matchAll(MARKER_PATTERN))) {
+    const numbers = match[1].split(',').map(value => Number(value.trim()));
+    const previous = groups[groups.length - 1];
+    if (previous && answer.slice(previous.end, match.index).trim() === '') {
+      previous.numbers.push(...numbers);
+      previous.end = match.index! + match[0].length;
+    } else {
+      groups.push({ numbers, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  for (const group of groups) {
+    const cited = group.numbers.filter(n => n >= 1 && n <= chunks.length);
+    if (cited.length < group.numbers.length) {
+      console.warn(`⚠️ Answer cites missing context block(s): ${group.numbers.filter(n => !cited.includes(n)).join(', ')}`);
+    }
+
+    // Quotes between the previous marker and this one are attributed to these blocks
+    const span = answer.slice(spanStart, group.start);
+    spanStart = group.end;
+    const quotes = Array.from(span.matchAll(QUOTE_PATTERN)).map(quote => quote[1] || quote[2]);
+
+    for (const n of cited) {
+      if (citations.has(n)) continue;
+      const chunk = chunks[n - 1];
+      citations.set(n, {
+        number: n,
+        chunkId: chunk.id,
+        articleId: chunk.articleId,
+        articleName: chunk.articleName,
+        url: chunk.anchor && chunk.url ? `${chunk.url}#${chunk.anchor}` : chunk.url,
+        anchor: chunk.anchor,
+        snippet: '',
+        quotes: [],
+        verified: true,
+      });
+    }
+
+    for (const quote of quotes) {
+      // With several blocks cited together, the quote belongs to those that contain it;
+      // if none do, it's unverified against all of them
+      const containing = cited.filter(n => quoteAppearsIn(quote, chunks[n - 1].text));
+      for (const n of containing.length > 0 ? containing : cited) {
+        const citation = citations.get(n)!;
+        citation.quotes.push({ text: quote, verified: containing.length > 0 });
+        if (containing.length === 0) citation.verified = false;
+      }
+    }
+  }
+
+  const result = Array.from(citations.values()).sort((a, b) => a.number - b.number);
+  result.forEach(citation => {
+    const chunk = chunks[citation.number - 1];
+    const quote = citation.quotes.find(candidate => candidate.verified);
+    citation.snippet = snippetFor(chunk, quote && quote.text);
+  });
+
+  const unverified = result.reduce((count, citation) => count + citation.quotes.filter(quote => !quote.verified).length, 0);
+  if (unverified > 0) {
+    console.warn(`⚠️ ${unverified} quoted span(s) not found in the cited documentation`);
+  }
+  return result;
+}
+
+/**
+ * Remove `[n]` markers, e.g. from earlier answers whose numbering no longer applies
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(/ ?\[\d+(?:\s*,\s*\d+)*\]/g, '');
+}
@@ -0,0 +1,104 @@
+import OpenAI from 'openai';
+import { countTokens } from './tokenizer';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const MAX_HISTORY_TURNS = 50;
+const MAX_TURN_CHARS = 20000;
+// Earlier turns shown to the rewriter; older context rarely changes what a follow-up means
+const REWRITE_CONTEXT_TURNS = 6;
+const REWRITE_MODEL = process.env.QUERY_REWRITE_MODEL || 'gpt-3.5-turbo';
+const REWRITE_ENABLED = process.env.QUERY_REWRITE !== 'off';
+
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
+
+/**
+ * Validate the message history from a request body; returns an error message if it's malformed
+ */
+export function parseHistory(input: unknown): ChatTurn[] | string {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) return 'history must be an array';
+  if (input.length > MAX_HISTORY_TURNS) return `history can have at most ${MAX_HISTORY_TURNS} messages`;
+
+  const history: ChatTurn[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const turn = input[i];
+    if (typeof turn !== 'object' || turn === null) return `history[${i}] must be an object`;
+    if (turn.role !== 'user' && turn.role !== 'assistant') return `history[${i}].role must be "user" or "assistant"`;
+    if (typeof turn.content !== 'string') return `history[${i}].content must be a string`;
+    if (turn.content.length > MAX_TURN_CHARS) return `history[${i}].content is too long`;
+    if (turn.content.trim()) history.push({ role: turn.role, content: turn.content });
+  }
+  return history;
+}
+
+/**
+ * The most recent turns that fit in a token budget, oldest first. Whole turns are
+ * dropped from the start so the model never sees half a message.
+ */
+export function trimHistory(history: ChatTurn[], maxTokens: number, model?: string): ChatTurn[] {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    // A few tokens of per-message overhead in the chat format
+    const tokens = countTokens(history[i].content, model) + 4;
+    if (used + tokens > maxTokens) break;
+    used += tokens;
+    kept.unshift(history[i]);
+  }
+
+  // Starting on an answer would leave it without its question
+  while (kept.length > 0 && kept[0].role === 'assistant') kept.shift();
+  return kept;
+}
+
+/**
+ * Rewrite a follow-up ("and on Android?") into a standalone search query using the
+ * conversation so far. Returns the query unchanged when there's no history or the
+ * rewrite fails.
+ */
+export async function rewriteQuery(query: string, history: ChatTurn[]): Promise<string> {
+  if (!REWRITE_ENABLED || !history.some(turn => turn.role === 'user')) return query;
+
+  const transcript = history
+    .slice(-REWRITE_CONTEXT_TURNS)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+
+  try {
+    const completion = await getOpenAI().chat.completions.create({
+      model: REWRITE_MODEL,
+      temperature: 0,
+      max_tokens: 100,
+      messages: [
+        {
+          role: 'system',
+          content: 'Rewrite the user\'s latest message as a standalone search query for a documentation search engine, '
+            + 'filling in anything it refers to from the conversation. Keep product names, error codes and other exact terms. '
+            + 'If the message is already standalone, return it unchanged. Reply with the query only.',
+        },
+        {
+          role: 'user',
+          content: `Conversation:\n${transcript}\n\nLatest message: ${query}`,
+        },
+      ],
+    });
+
+    const rewritten = (completion.choices[0]?.message?.content || '').trim().replace(/^"(.*)"$/, '$1');
+    return rewritten || query;
+  } catch (error) {
+    console.error('Query rewrite failed, searching with the original query:', error);
+    return query;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+import { appendTurns, createConversation, getConversation, getRetentionDays, purgeExpiredConversations } from './conversationStore';
+import { createTempStore, quietLogs, TempStore } from './testing';
+
+let store: TempStore;
+let warnSpy: jest.SpyInstance;
+
+beforeEach(async () => {
+  warnSpy = quietLogs().warn;
+  store = await createTempStore('conversations');
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  delete process.env.CONVERSATION_RETENTION_DAYS;
+  await store.remove();
+});
+
+test('an invalid retention setting keeps conversations and warns once instead of failing requests', async () => {
+  const conversation = createConversation();
+  await appendTurns(conversation, [{ role: 'user', content: 'How do I export invoices?', createdAt: conversation.createdAt }]);
+  process.env.CONVERSATION_RETENTION_DAYS = 'a month';
+
+  expect(getRetentionDays()).toBeNull();
+  expect(await getConversation(conversation.id)).not.toBeNull();
+  expect(await purgeExpiredConversations()).toBe(0);
+  expect(warnSpy).toHaveBeenCalledTimes(1);
+  expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('CONVERSATION_RETENTION_DAYS must be a positive number, got a month'));
+});
+
+test('conversations expire by their last message', async () => {
+  const conversation = createConversation();
+  await appendTurns(conversation, []);
+  await store.storage.setJSON(`conversations/${conversation.id}.json`, { ...conversation, updatedAt: '2024-01-01T00:00:00.000Z' });
+  process.env.CONVERSATION_RETENTION_DAYS = '30';
+
+  expect(getRetentionDays()).toBe(30);
+  expect(await getConversation(conversation.id)).toBeNull();
+  expect(await store.storage.list('conversations/')).toEqual([]);
+});
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { Citation } from './citations';
+import { ChatTurn } from './conversation';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, tenantStorageKey } from './tenants';
+
+export interface TurnSource {
+  name: string;
+  url: string;
+}
+
+/**
+ * One message of a stored conversation. Assistant turns keep what the user was shown
+ * alongside the answer.
+ */
+export interface ConversationTurn extends ChatTurn {
+  createdAt: string;
+  answerId?: string;
+  answerable?: boolean;
+  // Sources, or suggested articles when the question couldn't be answered
+  sources?: TurnSource[];
+  citations?: Citation[];
+}
+
+export interface Conversation {
+  id: string;
+  tenant: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+}
+
+export type TranscriptFormat = 'json' | 'markdown' | 'text';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'markdown', 'text'];
+
+const CONVERSATIONS_PREFIX = 'conversations/';
+// Conversation ids become part of storage keys, and knowing one is what lets you read it
+const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function conversationKey(tenant: string, id: string): string {
+  return tenantStorageKey(tenant, `${CONVERSATIONS_PREFIX}${id}.json`);
+}
+
+// The invalid setting last warned about, so each instance warns once rather than per request
+let warnedRetention: string | null = null;
+
+/**
+ * Days a conversation is kept after its last message, from CONVERSATION_RETENTION_DAYS;
+ * null keeps conversations forever. An invalid setting is logged and ignored rather than
+ * failing every chat request.
+ */
+export function getRetentionDays(): number | null {
+  const value = process.env.CONVERSATION_RETENTION_DAYS;
+  if (value === undefined || value === '') return null;
+  const days = Number(value);
+  if (!isFinite(days) || days <= 0) {
+    if (warnedRetention !== value) {
+      console.warn(`⚠️ CONVERSATION_RETENTION_DAYS must be a positive number, got ${value}; keeping all conversations`);
+      warnedRetention = value;
+    }
+    return null;
+  }
+  return days;
+}
+
+function isExpired(conversation: Conversation, now: number = Date.now()): boolean {
+  const days = getRetentionDays();
+  return days !== null && now - new Date(conversation.updatedAt).getTime() > days * DAY_MS;
+}
+
+/**
+ * Whether a string from a request could be a conversation id
+ */
+export function isConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+/**
+ * A new, empty conversation, optionally starting from turns the client already had
+ */
+export function createConversation(tenant: string = DEFAULT_TENANT_ID, history: ChatTurn[] = []): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    tenant,
+    createdAt: now,
+    updatedAt: now,
+    turns: history.map(turn => ({ role: turn.role, content: turn.content, createdAt: now })),
+  };
+}
+
+/**
+ * A stored conversation, or null if the tenant has none with this id. Conversations past
+ * the retention period are deleted here rather than returned.
+ */
+export async function getConversation(id: string, tenant: string = DEFAULT_TENANT_ID): Promise<Conversation | null> {
+  if (!isConversationId(id)) return null;
+
+  const storage = getStorageBackend();
+  const conversation = await storage.getJSON<Conversation>(conversationKey(tenant, id));
+  if (conversation && isExpired(conversation)) {
+    await storage.delete(conversationKey(tenant, id));
+    return null;
+  }
+  return conversation;
+}
+
+/**
+ * Add a question and its answer to a conversation and store it
+ */
+export async function appendTurns(conversation: Conversation, turns: ConversationTurn[]): Promise<void> {
+  conversation.turns.push(...turns);
+  conversation.updatedAt = new Date().toISOString();
+  await getStorageBackend().setJSON(conversationKey(conversation.tenant, conversation.id), conversation);
+}
+
+/**
+ * Delete a tenant's conversations past the retention period; returns how many were deleted
+ */
+export async function purgeExpiredConversations(tenant: string = DEFAULT_TENANT_ID): Promise<number> {
+  if (getRetentionDays() === null) return 0;
+
+  const storage = getStorageBackend();
+  const now = Date.now();
+  let deleted = 0;
+  for (const key of await storage.list(tenantStorageKey(tenant, CONVERSATIONS_PREFIX))) {
+    const conversation = await storage.getJSON<Conversation>(key);
+    if (conversation && isExpired(conversation, now)) {
+      await storage.delete(key);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+function sourceList(turn: ConversationTurn, format: (source: TurnSource) => string): string {
+  if (!turn.sources || turn.sources.length === 0) return '';
+  const heading = turn.answerable === false ? 'Suggested articles' : 'Sources';
+  return `\n\n${heading}:\n${turn.sources.map(format).join('\n')}`;
+}
+
+/**
+ * A conversation as a downloadable transcript, with each answer's sources
+ */
+export function formatTranscript(conversation: Conversation, format: TranscriptFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(conversation, null, 2);
+  }
+
+  if (format === 'markdown') {
+    const turns = conversation.turns.map(turn => {
+      const speaker = turn.role === 'user' ? 'You' : 'Assistant';
+      return `### ${speaker} · ${turn.createdAt}\n\n${turn.content}`
+        + sourceList(turn, source => `- [${source.name}](${source.url})`);
+    });
+    return `# Conversation ${conversation.id}\n\nStarted ${conversation.createdAt}\n\n${turns.join('\n\n')}\n`;
+  }
+
+  const turns = conversation.turns.map(turn => {
+    const speaker = turn.role === 'user' ? 'You' : 'Assistant';
+    return `${speaker} (${turn.createdAt}):\n${turn.content}`
+      + sourceList(turn, source => `- ${source.name}: ${source.url}`);
+  });
+  return `Conversation ${conversation.id}\nStarted ${conversation.createdAt}\n\n${turns.join('\n\n')}\n`;
+}
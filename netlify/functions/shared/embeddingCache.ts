@@ -0,0 +1,118 @@
+import { getStorageBackend } from './storage';
+
+/**
+ * Persistent embedding cache keyed by (model, sha256(text)).
+ *
+ * Entries are sharded by the first two hex characters of the hash so a lookup only
+ * loads the shards it needs. New entries are kept in memory and written out by
+ * flushEmbeddingCache(), which the article store calls whenever it saves the index and
+ * analytics calls after embedding logged questions.
+ *
+ * The cache is deliberately shared by all tenants: an entry is only the vector of a text
+ * whose hash the caller already has, and vectors are never returned by search, so
+ * sharing saves re-embedding common text without exposing anyone's content.
+ */
+
+type Shard = Record<string, number[]>;
+
+const CACHE_PREFIX = 'embedding-cache';
+
+const shards = new Map<string, Shard>();
+const dirtyShards = new Set<string>();
+const stats = { hits: 0, misses: 0 };
+
+function shardKey(model: string, hash: string): string {
+  return `${CACHE_PREFIX}/${model}/${hash.slice(0, 2)}.json`;
+}
+
+// Shards are memoised as promises so concurrent lookups share one read
+const shardLoads = new Map<string, Promise<Shard>>();
+
+function loadShard(key: string): Promise<Shard> {
+  let load = shardLoads.get(key);
+  if (!load) {
+    load = getStorageBackend()
+      .getJSON<Shard>(key)
+      .catch(error => {
+        // A missing or unreadable shard only costs us re-embedding
+        console.error(`Error loading embedding cache shard ${key}:`, error);
+        return null;
+      })
+      .then(shard => {
+        const loaded = shard || {};
+        shards.set(key, loaded);
+        return loaded;
+      });
+    shardLoads.set(key, load);
+  }
+  return load;
+}
+
+/**
+ * Look up cached embeddings; the result only contains hashes that were found
+ */
+export async function getCachedEmbeddings(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+
+  // Fetch every shard the lookup needs in parallel before reading any of them
+  const keys = Array.from(new Set(hashes.map(hash => shardKey(model, hash))));
+  const loaded = new Map(await Promise.all(keys.map(async key => [key, await loadShard(key)] as [string, Shard])));
+
+  for (const hash of hashes) {
+    const shard = loaded.get(shardKey(model, hash))!;
+    if (shard[hash]) {
+      found.set(hash, shard[hash]);
+      stats.hits++;
+    } else {
+      stats.misses++;
+    }
+  }
+  return found;
+}
+
+/**
+ * Add embeddings to the cache; they're persisted on the next flush
+ */
+export async function putCachedEmbeddings(model: string, entries: Array<[string, number[]]>): Promise<void> {
+  for (const [hash, embedding] of entries) {
+    const key = shardKey(model, hash);
+    const shard = await loadShard(key);
+    shard[hash] = embedding;
+    dirtyShards.add(key);
+  }
+}
+
+/**
+ * Write shards with new entries to storage
+ */
+export async function flushEmbeddingCache(): Promise<void> {
+  const keys = Array.from(dirtyShards);
+  dirtyShards.clear();
+
+  for (const key of keys) {
+    try {
+      await getStorageBackend().setJSON(key, shards.get(key) || {});
+    } catch (error) {
+      dirtyShards.add(key);
+      console.error(`Error saving embedding cache shard ${key}:`, error);
+    }
+  }
+
+  if (keys.length > 0) {
+    console.log(`💾 Saved ${keys.length} embedding cache shards`);
+  }
+}
+
+/**
+ * Hit/miss counts since this function instance started
+ */
+export function getEmbeddingCacheStats() {
+  const total = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: total > 0 ? Math.round((stats.hits / total) * 1000) / 1000 : 0,
+    loadedShards: shards.size,
+    unsavedShards: dirtyShards.size,
+  };
+}
@@ -0,0 +1,144 @@
+import { getCachedEmbeddings, putCachedEmbeddings } from '../embeddingCache';
+import { hashContent } from '../hash';
+import { createLocalEmbeddingProvider } from './local';
+import { createOpenAIEmbeddingProvider, DEFAULT_OPENAI_EMBEDDING_MODEL } from './openai';
+import { EmbeddingProvider, EmbeddingProviderConfig } from './types';
+
+export * from './types';
+export { createLocalEmbeddingProvider, createOpenAIEmbeddingProvider, DEFAULT_OPENAI_EMBEDDING_MODEL };
+export { hashingEmbedding, LOCAL_EMBEDDING_MODEL } from './local';
+
+export interface EmbeddingOptions {
+  // Skip the persistent cache (e.g. for one-off search queries)
+  cache?: boolean;
+}
+
+const CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 3;
+
+/**
+ * Build a provider from its config
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.type) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider(config);
+    case 'local':
+      return createLocalEmbeddingProvider(config);
+    default: {
+      // Configs can come from untyped callers, so an unknown type can still reach here
+      const unknownConfig: { type: string } = config;
+      throw new Error(`Unknown embedding provider type: ${unknownConfig.type}`);
+    }
+  }
+}
+
+/**
+ * Provider config from EMBEDDING_PROVIDER ("openai" | "local"), EMBEDDING_MODEL,
+ * EMBEDDING_DIMENSIONS, EMBEDDING_BASE_URL and EMBEDDING_API_KEY
+ */
+export function getEmbeddingProviderConfig(): EmbeddingProviderConfig {
+  const type = process.env.EMBEDDING_PROVIDER || 'openai';
+  const dimensions = Number(process.env.EMBEDDING_DIMENSIONS) || undefined;
+
+  if (type === 'local') {
+    return { type, dimensions };
+  }
+  if (type === 'openai') {
+    return {
+      type,
+      model: process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL,
+      baseURL: process.env.EMBEDDING_BASE_URL || undefined,
+      apiKey: process.env.EMBEDDING_API_KEY || undefined,
+      dimensions,
+    };
+  }
+  throw new Error(`Unknown EMBEDDING_PROVIDER: ${type}`);
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * The configured embedding provider, created on first use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider(getEmbeddingProviderConfig());
+    console.log(`🧮 Using ${provider.type} embedding provider (${provider.model})`);
+  }
+  return provider;
+}
+
+/**
+ * Override the embedding provider (useful for testing)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
+}
+
+// Vectors are only interchangeable within one model at one size
+function cacheNamespace(embedder: EmbeddingProvider): string {
+  const name = embedder.dimensions ? `${embedder.model}@${embedder.dimensions}` : embedder.model;
+  return name.replace(/[^\w.@-]/g, '_');
+}
+
+// Run tasks with at most `limit` in flight
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+/**
+ * Embed many texts using batched requests, bounded concurrency and the content-hash cache
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  options: EmbeddingOptions = {},
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const useCache = options.cache !== false && embedder.cacheable;
+  const namespace = cacheNamespace(embedder);
+  const hashes = texts.map(text => hashContent(text));
+  const cached = useCache ? await getCachedEmbeddings(namespace, hashes) : new Map<string, number[]>();
+
+  // Identical texts are only embedded once
+  const missing = Array.from(new Set(hashes.filter(hash => !cached.has(hash))));
+  const textByHash = new Map(hashes.map((hash, i) => [hash, texts[i]]));
+
+  if (missing.length > 0) {
+    const batches: string[][] = [];
+    for (let i = 0; i < missing.length; i += embedder.maxBatchSize) {
+      batches.push(missing.slice(i, i + embedder.maxBatchSize));
+    }
+
+    if (embedder.cacheable) {
+      console.log(`🔄 Embedding ${missing.length} texts in ${batches.length} batches (${texts.length - missing.length} cached)`);
+    }
+
+    const results = await runWithConcurrency(
+      batches.map(batch => () => embedder.embed(batch.map(hash => textByHash.get(hash)!))),
+      CONCURRENCY
+    );
+
+    const fresh: Array<[string, number[]]> = [];
+    batches.forEach((batch, b) => batch.forEach((hash, i) => fresh.push([hash, results[b][i]])));
+    fresh.forEach(([hash, embedding]) => cached.set(hash, embedding));
+
+    if (useCache) {
+      await putCachedEmbeddings(namespace, fresh);
+    }
+  }
+
+  return hashes.map(hash => cached.get(hash)!);
+}
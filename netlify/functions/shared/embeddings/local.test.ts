@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+import { createLocalEmbeddingProvider, hashingEmbedding, LOCAL_EMBEDDING_MODEL } from './local';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('local hashing embeddings', () => {
+  test('the same text always gets the same vector', async () => {
+    const provider = createLocalEmbeddingProvider();
+    const [first, second] = await provider.embed(['Reset your password from Settings', 'Reset your password from Settings']);
+
+    expect(first).toEqual(second);
+    expect(first).toEqual(hashingEmbedding('Reset your password from Settings'));
+  });
+
+  test('vectors have the configured size and unit length', async () => {
+    const provider = createLocalEmbeddingProvider({ type: 'local', dimensions: 64 });
+    const [vector] = await provider.embed(['Invoices can be exported to CSV']);
+
+    expect(provider.model).toBe(LOCAL_EMBEDDING_MODEL);
+    expect(provider.dimensions).toBe(64);
+    expect(vector).toHaveLength(64);
+    expect(cosine(vector, vector)).toBeCloseTo(1, 10);
+    expect(await createLocalEmbeddingProvider().embed(['x'])).toEqual([expect.any(Array)]);
+    expect(hashingEmbedding('x')).toHaveLength(512);
+  });
+
+  test('texts sharing words are closer than unrelated ones', () => {
+    const query = hashingEmbedding('export invoices to csv');
+    const related = hashingEmbedding('How to export your invoices as a CSV file');
+    const unrelated = hashingEmbedding('Inviting teammates to a workspace');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  test('text without words embeds as a zero vector', () => {
+    expect(hashingEmbedding('!!! ???', 8)).toEqual(new Array(8).fill(0));
+  });
+});
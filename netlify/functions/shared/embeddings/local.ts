@@ -0,0 +1,68 @@
+import { EmbeddingProvider, LocalEmbeddingConfig } from './types';
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashing-v1';
+
+const DEFAULT_DIMENSIONS = 512;
+
+// 32-bit FNV-1a; stable across runs and platforms
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Hash unigrams and bigrams into a fixed-size vector with sublinear term
+ * frequency weights, then L2-normalise so cosine similarity behaves like TF-IDF
+ * over shared terms
+ */
+export function hashingEmbedding(text: string, dimensions: number = DEFAULT_DIMENSIONS): number[] {
+  const words = tokenize(text);
+  const counts = new Map<string, number>();
+  words.forEach((word, i) => {
+    counts.set(word, (counts.get(word) || 0) + 1);
+    if (i > 0) {
+      const bigram = `${words[i - 1]} ${word}`;
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, term) => {
+    const hash = fnv1a(term);
+    // A hash-derived sign keeps collisions from only ever adding up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Deterministic, offline embeddings for tests and local development
+ */
+export function createLocalEmbeddingProvider(config: LocalEmbeddingConfig = { type: 'local' }): EmbeddingProvider {
+  const dimensions = config.dimensions || DEFAULT_DIMENSIONS;
+
+  return {
+    type: 'local',
+    model: LOCAL_EMBEDDING_MODEL,
+    dimensions,
+    // Cheaper to recompute than to read back from storage
+    cacheable: false,
+    maxBatchSize: 1000,
+    // Only shared words score above zero, so a low bar already means some overlap
+    minSimilarity: 0.15,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(text => hashingEmbedding(text, dimensions));
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import OpenAI from 'openai';
+import { createOpenAIEmbeddingProvider } from './openai';
+
+// Jest's node environment has no fetch Headers; the provider only reads retry-after
+function headers(values: Record<string, string> = {}): Headers {
+  return { get: (name: string) => values[name] ?? null } as unknown as Headers;
+}
+
+function rateLimited(retryAfter: string): InstanceType<typeof OpenAI.APIError> {
+  return new OpenAI.APIError(429, undefined, 'Rate limit reached', headers({ 'retry-after': retryAfter }));
+}
+
+describe('openai embeddings', () => {
+  let create: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    // The client needs a fetch to construct, but every call is stubbed below
+    Object.assign(globalThis, { fetch: () => Promise.reject(new Error('Unexpected request')) });
+  });
+
+  afterAll(() => {
+    Reflect.deleteProperty(globalThis, 'fetch');
+  });
+
+  beforeEach(() => {
+    // Stubs the client's embeddings endpoint; no request leaves the test
+    create = jest.spyOn(OpenAI.Embeddings.prototype, 'create');
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('returns vectors in input order whatever order the API uses', async () => {
+    create.mockResolvedValue({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+    const provider = createOpenAIEmbeddingProvider({ type: 'openai', apiKey: 'sk-test', model: 'text-embedding-3-small', dimensions: 2 });
+
+    expect(await provider.embed(['first', 'second'])).toEqual([[1, 0], [0, 1]]);
+    expect(create).toHaveBeenCalledWith({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 2 });
+  });
+
+  test('retries connection errors with backoff and rate limits after retry-after', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    create
+      .mockRejectedValueOnce(new OpenAI.APIConnectionError({ message: 'socket hang up' }))
+      .mockRejectedValueOnce(rateLimited('0'))
+      .mockResolvedValueOnce({ data: [{ index: 0, embedding: [1] }] });
+    const provider = createOpenAIEmbeddingProvider({ type: 'openai', apiKey: 'sk-test' });
+
+    expect(await provider.embed(['text'])).toEqual([[1]]);
+    expect(create).toHaveBeenCalledTimes(3);
+    // Half of the first 500ms backoff step when the jitter is zero
+    expect(warnSpy.mock.calls[0][0]).toContain('failed (connection error), retrying in 250ms');
+    expect(warnSpy.mock.calls[1][0]).toContain('failed (429), retrying in 0ms');
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    create.mockRejectedValue(rateLimited('0'));
+    const provider = createOpenAIEmbeddingProvider({ type: 'openai', apiKey: 'sk-test', maxRetries: 2 });
+
+    await expect(provider.embed(['text'])).rejects.toThrow('Rate limit reached');
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry client errors', async () => {
+    create.mockRejectedValue(new OpenAI.APIError(400, undefined, 'Invalid input', headers()));
+    const provider = createOpenAIEmbeddingProvider({ type: 'openai', apiKey: 'sk-test' });
+
+    await expect(provider.embed([''])).rejects.toThrow('Invalid input');
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  test('refuses custom dimensions for fixed-size models', () => {
+    expect(() => createOpenAIEmbeddingProvider({ type: 'openai', model: 'text-embedding-ada-002', dimensions: 256 }))
+      .toThrow('Embedding model text-embedding-ada-002 does not support custom dimensions');
+  });
+});
@@ -0,0 +1,103 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider, OpenAIEmbeddingConfig } from './types';
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-ada-002';
+
+const BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 100;
+const DEFAULT_MAX_RETRIES = Number(process.env.EMBEDDING_MAX_RETRIES) || 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 20000;
+
+// ada-002 has a fixed size and rejects the dimensions parameter
+const FIXED_SIZE_MODELS = new Set(['text-embedding-ada-002']);
+
+// ada-002 scores even unrelated text around 0.7; the v3 models spread much wider
+const MIN_SIMILARITY: Record<string, number> = {
+  'text-embedding-ada-002': 0.75,
+  'text-embedding-3-small': 0.3,
+  'text-embedding-3-large': 0.3,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Status of a failed API call; connection errors have none
+function errorStatus(error: unknown): number | undefined {
+  return error instanceof OpenAI.APIError ? error.status : undefined;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  const status = errorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function retryDelay(error: unknown, attempt: number): number {
+  const retryAfter = error instanceof OpenAI.APIError && error.headers ? error.headers.get('retry-after') : null;
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Math.min(Number(retryAfter) * 1000, MAX_DELAY_MS);
+  }
+  // Exponential backoff with jitter
+  const backoff = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Embeddings from OpenAI or any server implementing its /embeddings API
+ */
+export function createOpenAIEmbeddingProvider(config: OpenAIEmbeddingConfig): EmbeddingProvider {
+  const model = config.model || DEFAULT_OPENAI_EMBEDDING_MODEL;
+  const maxRetries = config.maxRetries !== undefined ? config.maxRetries : DEFAULT_MAX_RETRIES;
+  if (config.dimensions && FIXED_SIZE_MODELS.has(model)) {
+    throw new Error(`Embedding model ${model} does not support custom dimensions`);
+  }
+
+  // Created on first use so importing the store never requires credentials
+  let client: OpenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({
+        apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+        baseURL: config.baseURL,
+        // Retries are handled here so backoff is shared across batches
+        maxRetries: 0,
+      });
+    }
+    return client;
+  };
+
+  return {
+    type: 'openai',
+    model,
+    dimensions: config.dimensions,
+    cacheable: true,
+    maxBatchSize: BATCH_SIZE,
+    // Unknown (e.g. self-hosted) models don't filter on similarity unless configured
+    minSimilarity: MIN_SIMILARITY[model] || 0,
+    async embed(inputs: string[]): Promise<number[][]> {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await getClient().embeddings.create({
+            model,
+            input: inputs,
+            ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+          });
+          // The API returns results with their input index; don't rely on ordering
+          const embeddings: number[][] = new Array(inputs.length);
+          response.data.forEach(item => {
+            embeddings[item.index] = item.embedding;
+          });
+          return embeddings;
+        } catch (error) {
+          if (attempt >= maxRetries || !isRetryable(error)) {
+            throw error;
+          }
+          const delay = retryDelay(error, attempt);
+          console.warn(`⏳ Embedding batch of ${inputs.length} failed (${errorStatus(error) || 'connection error'}), retrying in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
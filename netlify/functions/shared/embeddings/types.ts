@@ -0,0 +1,36 @@
+/**
+ * Turns text into vectors. Vectors from different providers (or the same model at
+ * different dimensions) live in different spaces and must never be compared.
+ */
+export interface EmbeddingProvider {
+  type: string;
+  // Model name recorded on every chunk the provider embeds
+  model: string;
+  // Requested vector size; undefined means the model's native size
+  dimensions?: number;
+  // Whether results are worth keeping in the persistent embedding cache
+  cacheable: boolean;
+  // Largest number of texts sent in one request
+  maxBatchSize: number;
+  // Cosine similarity below which a match is treated as unrelated. Each model has its
+  // own similarity range, so this can't be a single global number.
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface OpenAIEmbeddingConfig {
+  type: 'openai';
+  model?: string;
+  apiKey?: string;
+  // Any OpenAI-compatible embeddings endpoint (Azure, Ollama, vLLM, ...)
+  baseURL?: string;
+  dimensions?: number;
+  maxRetries?: number;
+}
+
+export interface LocalEmbeddingConfig {
+  type: 'local';
+  dimensions?: number;
+}
+
+export type EmbeddingProviderConfig = OpenAIEmbeddingConfig | LocalEmbeddingConfig;
@@ -0,0 +1,136 @@
+/**
+ * Feedback storage: ratings replace each other, the worst-first listing only reads the
+ * answers it returns, stored answers go with their conversation and ratings are kept for
+ * their own retention period.
+ *
+ * @jest-environment node
+ */
+import { purgeExpiredConversations } from './conversationStore';
+import {
+  getAnswer,
+  getFeedbackRetentionDays,
+  listWorstRatedAnswers,
+  parseFeedback,
+  purgeExpiredAnswers,
+  purgeExpiredFeedback,
+  recordAnswer,
+  saveFeedback,
+} from './feedback';
+import { getStorageBackend, StorageBackend } from './storage';
+import { tenantStorageKey } from './tenants';
+import { createTempStore, quietLogs, TempStore, testAnswer } from './testing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let store: TempStore;
+let storage: StorageBackend;
+
+beforeEach(async () => {
+  quietLogs();
+  store = await createTempStore('feedback');
+  storage = store.storage;
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  delete process.env.CONVERSATION_RETENTION_DAYS;
+  delete process.env.FEEDBACK_RETENTION_DAYS;
+  await store.remove();
+});
+
+test('rating an answer again replaces the earlier rating', async () => {
+  const record = testAnswer('a1');
+  await saveFeedback(record, 'down', 'Outdated');
+  await saveFeedback(record, 'up');
+
+  const { totals, answers } = await listWorstRatedAnswers();
+  expect(totals).toEqual({ up: 1, down: 0 });
+  expect(answers.map(rated => rated.feedback.rating)).toEqual(['up']);
+  expect(await getStorageBackend().list(tenantStorageKey('default', 'feedback/a1/'))).toHaveLength(1);
+});
+
+test('lists worst first and reads only the answers it returns', async () => {
+  await saveFeedback(testAnswer('up-plain'), 'up');
+  await saveFeedback(testAnswer('down-plain'), 'down');
+  await saveFeedback(testAnswer('down-commented'), 'down', 'Wrong menu');
+  await saveFeedback(testAnswer('up-commented'), 'up', 'Thanks');
+
+  const getJSON = jest.spyOn(storage, 'getJSON');
+  const { totals, answers } = await listWorstRatedAnswers('default', 2);
+
+  expect(totals).toEqual({ up: 2, down: 2 });
+  expect(answers.map(rated => rated.id)).toEqual(['down-commented', 'down-plain']);
+  expect(getJSON).toHaveBeenCalledTimes(2);
+});
+
+// A stored conversation whose last message was `daysAgo` days ago
+async function storeConversation(id: string, daysAgo: number): Promise<void> {
+  const at = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+  await storage.setJSON(tenantStorageKey('default', `conversations/${id}.json`), { id, tenant: 'default', createdAt: at, updatedAt: at, turns: [] });
+}
+
+test('keeps answers while their conversation is active, however old they are', async () => {
+  await storeConversation('active', 1);
+  await recordAnswer(testAnswer('old', { conversationId: 'active', createdAt: new Date(Date.now() - 30 * DAY_MS).toISOString() }));
+  process.env.CONVERSATION_RETENTION_DAYS = '7';
+
+  expect(await purgeExpiredAnswers()).toBe(0);
+  expect(await getAnswer('old')).not.toBeNull();
+});
+
+test('deletes answers with their expired conversation but keeps rated copies', async () => {
+  await storeConversation('stale', 10);
+  await storeConversation('active', 1);
+  const old = testAnswer('old', { conversationId: 'stale' });
+  await recordAnswer(old);
+  await recordAnswer(testAnswer('recent', { conversationId: 'active' }));
+  await saveFeedback(old, 'down');
+
+  expect(await purgeExpiredAnswers()).toBe(0);
+
+  process.env.CONVERSATION_RETENTION_DAYS = '7';
+  expect(await purgeExpiredConversations()).toBe(1);
+  expect(await purgeExpiredAnswers()).toBe(1);
+  expect(await getAnswer('old')).toBeNull();
+  expect(await getAnswer('recent')).not.toBeNull();
+  expect((await listWorstRatedAnswers()).totals).toEqual({ up: 0, down: 1 });
+});
+
+test('refuses to return an answer from an expired conversation, so it can no longer be rated', async () => {
+  await storeConversation('stale', 10);
+  await recordAnswer(testAnswer('old', { conversationId: 'stale' }));
+  process.env.CONVERSATION_RETENTION_DAYS = '7';
+
+  expect(await getAnswer('old')).toBeNull();
+  expect(await storage.list(tenantStorageKey('default', 'answers/'))).toEqual([]);
+});
+
+test('keeps ratings for FEEDBACK_RETENTION_DAYS after they were given', async () => {
+  await saveFeedback(testAnswer('recent'), 'up');
+  const ratedAt = Date.now() - 40 * DAY_MS;
+  await storage.setJSON(tenantStorageKey('default', `feedback/old/down-plain-${ratedAt}.json`), {
+    ...testAnswer('old'),
+    feedback: { rating: 'down', ratedAt: new Date(ratedAt).toISOString() },
+  });
+
+  expect(await purgeExpiredFeedback()).toBe(0);
+
+  process.env.FEEDBACK_RETENTION_DAYS = '30';
+  expect((await listWorstRatedAnswers()).totals).toEqual({ up: 1, down: 0 });
+  expect(await purgeExpiredFeedback()).toBe(1);
+  expect(await storage.list(tenantStorageKey('default', 'feedback/'))).toHaveLength(1);
+
+  // A setting that isn't a positive number falls back to the default rather than failing
+  process.env.FEEDBACK_RETENTION_DAYS = 'forever';
+  expect(getFeedbackRetentionDays()).toBe(365);
+});
+
+test('checks each field of a rating request', () => {
+  expect(parseFeedback({ answerId: 'a1', rating: 'down', comment: '  Outdated  ' })).toEqual({ answerId: 'a1', rating: 'down', comment: 'Outdated' });
+  expect(parseFeedback({ answerId: 'a1', rating: 'up', comment: null })).toEqual({ answerId: 'a1', rating: 'up', comment: undefined });
+  expect(parseFeedback(null)).toBe('Request body must be an object');
+  expect(parseFeedback({ answerId: '../a1', rating: 'up' })).toMatch(/answerId/);
+  expect(parseFeedback({ answerId: 'a1', rating: 1 })).toMatch(/rating/);
+  expect(parseFeedback({ answerId: 'a1', rating: 'up', comment: 42 })).toBe('comment must be a string');
+  expect(parseFeedback({ answerId: 'a1', rating: 'up', comment: 'x'.repeat(2001) })).toMatch(/at most 2000/);
+});
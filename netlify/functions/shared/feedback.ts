@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { getArticle, SearchResult } from './articleStore';
+import { getConversation, getRetentionDays } from './conversationStore';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, tenantStorageKey } from './tenants';
+
+export type Rating = 'up' | 'down';
+
+/**
+ * A chunk an answer was generated from, with the scores that got it retrieved
+ */
+export interface RetrievedChunk {
+  id: string;
+  articleId: string;
+  articleName: string;
+  url: string;
+  similarity?: number;
+  rerankScore?: number;
+}
+
+/**
+ * What the assistant answered and what it was shown, kept so feedback on the answer can
+ * be traced back to the documentation
+ */
+export interface AnswerRecord {
+  id: string;
+  tenant: string;
+  query: string;
+  searchQuery: string;
+  answer: string;
+  answerable: boolean;
+  // Null when no model was asked (nothing relevant to answer from)
+  model: string | null;
+  profile: string;
+  language: string;
+  chunks: RetrievedChunk[];
+  // The conversation the answer is part of; the answer is kept as long as it is
+  conversationId: string;
+  createdAt: string;
+}
+
+export interface AnswerFeedback {
+  rating: Rating;
+  comment?: string;
+  ratedAt: string;
+}
+
+export interface RatedAnswer extends AnswerRecord {
+  feedback: AnswerFeedback;
+}
+
+const ANSWERS_PREFIX = 'answers/';
+const FEEDBACK_PREFIX = 'feedback/';
+const MAX_COMMENT_CHARS = 2000;
+// Answer ids become part of storage keys
+const ANSWER_ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/;
+// feedback/<answerId>/<rating>-<commented|plain>-<ratedAt ms>.json
+const FEEDBACK_KEY_PATTERN = /\/[a-zA-Z0-9-]{1,64}\/(up|down)-(commented|plain)-(\d+)\.json$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FEEDBACK_RETENTION_DAYS = 365;
+
+// What the worst-first listing sorts on, read from a rating's storage key
+interface FeedbackKey {
+  key: string;
+  rating: Rating;
+  commented: boolean;
+  ratedAt: number;
+}
+
+function answerKey(tenant: string, id: string): string {
+  return tenantStorageKey(tenant, `${ANSWERS_PREFIX}${id}.json`);
+}
+
+// Ratings are keyed by what they're sorted on, so listing them only reads the ones returned
+function feedbackKey(answer: RatedAnswer): string {
+  const { rating, comment, ratedAt } = answer.feedback;
+  const name = `${rating}-${comment ? 'commented' : 'plain'}-${new Date(ratedAt).getTime()}`;
+  return tenantStorageKey(answer.tenant, `${FEEDBACK_PREFIX}${answer.id}/${name}.json`);
+}
+
+function parseFeedbackKey(key: string): FeedbackKey | null {
+  const match = FEEDBACK_KEY_PATTERN.exec(key);
+  if (!match) return null;
+  return {
+    key,
+    rating: match[1] === 'down' ? 'down' : 'up',
+    commented: match[2] === 'commented',
+    ratedAt: Number(match[3]),
+  };
+}
+
+/**
+ * Days a rated answer is kept after its rating, from FEEDBACK_RETENTION_DAYS (default 365).
+ * Rated answers outlive their conversation so the worst-rated listing has a history to show.
+ */
+export function getFeedbackRetentionDays(): number {
+  const value = process.env.FEEDBACK_RETENTION_DAYS;
+  if (value === undefined || value === '') return DEFAULT_FEEDBACK_RETENTION_DAYS;
+  const days = Number(value);
+  if (!isFinite(days) || days <= 0) {
+    console.warn(`⚠️ FEEDBACK_RETENTION_DAYS must be a positive number, got ${value}; keeping ratings ${DEFAULT_FEEDBACK_RETENTION_DAYS} days`);
+    return DEFAULT_FEEDBACK_RETENTION_DAYS;
+  }
+  return days;
+}
+
+// An answer goes when its conversation does: each new turn extends the conversation, so
+// answers in an active one stay ratable. Conversations are read once per purge.
+async function isExpired(answer: AnswerRecord, conversations: Map<string, Promise<boolean>> = new Map()): Promise<boolean> {
+  if (getRetentionDays() === null) return false;
+
+  let expired = conversations.get(answer.conversationId);
+  if (!expired) {
+    expired = getConversation(answer.conversationId, answer.tenant).then(conversation => conversation === null);
+    conversations.set(answer.conversationId, expired);
+  }
+  return expired;
+}
+
+/**
+ * A new id for an answer, returned with it so it can be rated
+ */
+export function createAnswerId(): string {
+  return randomUUID();
+}
+
+/**
+ * The retrieval context of an answer, from the search results it was generated from
+ */
+export function retrievedChunks(results: SearchResult[]): RetrievedChunk[] {
+  return results.map(({ chunk, similarity, rerankScore }) => ({
+    id: chunk.id,
+    articleId: chunk.articleId,
+    articleName: chunk.articleName,
+    url: chunk.url,
+    similarity,
+    rerankScore,
+  }));
+}
+
+/**
+ * Store an answer so it can be rated later
+ */
+export async function recordAnswer(record: AnswerRecord): Promise<void> {
+  await getStorageBackend().setJSON(answerKey(record.tenant, record.id), record);
+}
+
+/**
+ * A stored answer by id, or null if the tenant has no such answer. Answers whose
+ * conversation has expired are deleted here rather than returned.
+ */
+export async function getAnswer(id: string, tenant: string = DEFAULT_TENANT_ID): Promise<AnswerRecord | null> {
+  if (!ANSWER_ID_PATTERN.test(id)) return null;
+
+  const storage = getStorageBackend();
+  const answer = await storage.getJSON<AnswerRecord>(answerKey(tenant, id));
+  if (answer && await isExpired(answer)) {
+    await storage.delete(answerKey(tenant, id));
+    return null;
+  }
+  return answer;
+}
+
+/**
+ * Delete a tenant's answers whose conversation has expired; returns how many were deleted.
+ * Run after purgeExpiredConversations. Rated answers keep their own copy under feedback/.
+ */
+export async function purgeExpiredAnswers(tenant: string = DEFAULT_TENANT_ID): Promise<number> {
+  if (getRetentionDays() === null) return 0;
+
+  const storage = getStorageBackend();
+  const conversations = new Map<string, Promise<boolean>>();
+  let deleted = 0;
+  for (const key of await storage.list(tenantStorageKey(tenant, ANSWERS_PREFIX))) {
+    const answer = await storage.getJSON<AnswerRecord>(key);
+    if (answer && await isExpired(answer, conversations)) {
+      await storage.delete(key);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Delete a tenant's ratings older than FEEDBACK_RETENTION_DAYS; returns how many were
+ * deleted. Rating times are part of the keys, so nothing is read.
+ */
+export async function purgeExpiredFeedback(tenant: string = DEFAULT_TENANT_ID): Promise<number> {
+  const storage = getStorageBackend();
+  const since = Date.now() - getFeedbackRetentionDays() * DAY_MS;
+  const expired = (await storage.list(tenantStorageKey(tenant, FEEDBACK_PREFIX)))
+    .map(parseFeedbackKey)
+    .filter((rating): rating is FeedbackKey => rating !== null && rating.ratedAt < since);
+  for (const { key } of expired) {
+    await storage.delete(key);
+  }
+  return expired.length;
+}
+
+/**
+ * Validate a rating from a request body; returns an error message if it's malformed
+ */
+export function parseFeedback(body: unknown): { answerId: string; rating: Rating; comment?: string } | string {
+  if (typeof body !== 'object' || body === null) return 'Request body must be an object';
+
+  const { answerId, rating, comment } = body as Record<string, unknown>;
+  if (typeof answerId !== 'string' || !ANSWER_ID_PATTERN.test(answerId)) {
+    return 'answerId must be the answerId returned with the answer';
+  }
+  if (rating !== 'up' && rating !== 'down') {
+    return 'rating must be "up" or "down"';
+  }
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    return 'comment must be a string';
+  }
+  const trimmed = typeof comment === 'string' ? comment.trim() : '';
+  if (trimmed.length > MAX_COMMENT_CHARS) {
+    return `comment can be at most ${MAX_COMMENT_CHARS} characters`;
+  }
+  return { answerId, rating, comment: trimmed || undefined };
+}
+
+/**
+ * Rate an answer; rating it again replaces the earlier rating
+ */
+export async function saveFeedback(answer: AnswerRecord, rating: Rating, comment?: string): Promise<RatedAnswer> {
+  const storage = getStorageBackend();
+  const rated: RatedAnswer = { ...answer, feedback: { rating, comment, ratedAt: new Date().toISOString() } };
+  const key = feedbackKey(rated);
+  const earlier = await storage.list(tenantStorageKey(answer.tenant, `${FEEDBACK_PREFIX}${answer.id}/`));
+  await storage.setJSON(key, rated);
+  for (const previous of earlier.filter(candidate => candidate !== key)) {
+    await storage.delete(previous);
+  }
+  console.log(`${rating === 'up' ? '👍' : '👎'} Feedback on answer ${answer.id}${comment ? ' with a comment' : ''}`);
+  return rated;
+}
+
+/**
+ * A tenant's rated answers, worst first: thumbs down before thumbs up, commented before
+ * uncommented, then newest first. Each retrieved chunk comes with its current text, if
+ * it's still in the index, to show what the answer was based on.
+ */
+export async function listWorstRatedAnswers(tenant: string = DEFAULT_TENANT_ID, limit: number = 20) {
+  const storage = getStorageBackend();
+  const keys = await storage.list(tenantStorageKey(tenant, FEEDBACK_PREFIX));
+  // Ratings past retention are left for the daily cleanup to delete
+  const since = Date.now() - getFeedbackRetentionDays() * DAY_MS;
+  const ratings = keys.map(parseFeedbackKey).filter((rating): rating is FeedbackKey => rating !== null && rating.ratedAt >= since);
+
+  const totals = {
+    up: ratings.filter(rating => rating.rating === 'up').length,
+    down: ratings.filter(rating => rating.rating === 'down').length,
+  };
+
+  const worst = ratings
+    .sort((a, b) => Number(b.rating === 'down') - Number(a.rating === 'down')
+      || Number(b.commented) - Number(a.commented)
+      || b.ratedAt - a.ratedAt)
+    .slice(0, limit);
+  const rated = (await Promise.all(worst.map(rating => storage.getJSON<RatedAnswer>(rating.key))))
+    .filter((answer): answer is RatedAnswer => answer !== null);
+
+  const answers = rated.map(answer => ({
+    ...answer,
+    chunks: answer.chunks.map(chunk => {
+      const current = getArticle(chunk.articleId, tenant)?.chunks.find(candidate => candidate.id === chunk.id);
+      return { ...chunk, text: current ? current.text : null };
+    }),
+  }));
+
+  return { totals, answers };
+}
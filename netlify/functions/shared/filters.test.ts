@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { matchesFilter, parseSearchFilter } from './filters';
+import { testChunk } from './testing';
+
+describe('parseSearchFilter', () => {
+  test('accepts strings, lists, dates and nested filters', () => {
+    const input = {
+      source: 'helpscout',
+      tags: ['billing', 'invoices'],
+      updatedAfter: '2025-01-01',
+      language: null,
+      any: [{ collection: 'Android' }, { collection: 'iOS' }],
+      not: { status: 'draft' },
+    };
+
+    expect(parseSearchFilter(input)).toEqual({
+      source: 'helpscout',
+      tags: ['billing', 'invoices'],
+      updatedAfter: '2025-01-01',
+      any: [{ collection: 'Android' }, { collection: 'iOS' }],
+      not: { status: 'draft' },
+    });
+  });
+
+  test('names the invalid field', () => {
+    expect(parseSearchFilter(['billing'])).toBe('filters must be an object');
+    expect(parseSearchFilter({ author: 'Sam' })).toBe('Unknown filter field: filters.author');
+    expect(parseSearchFilter({ tags: [] })).toBe('filters.tags must be a string or a non-empty array of strings');
+    expect(parseSearchFilter({ tags: ['billing', 3] })).toBe('filters.tags must be a string or a non-empty array of strings');
+    expect(parseSearchFilter({ updatedBefore: 'last week' })).toBe('filters.updatedBefore must be an ISO date');
+    expect(parseSearchFilter({ any: [] })).toBe('filters.any must be a non-empty array of filters');
+    expect(parseSearchFilter({ any: [{ status: 'draft' }, { colour: 'red' }] })).toBe('Unknown filter field: filters.any[1].colour');
+    expect(parseSearchFilter({ not: 'draft' })).toBe('filters.not must be an object');
+  });
+
+  test('refuses filters nested too deeply', () => {
+    let nested: object = { status: 'draft' };
+    for (let i = 0; i < 6; i++) nested = { not: nested };
+
+    expect(parseSearchFilter(nested)).toMatch(/is nested too deeply$/);
+  });
+});
+
+describe('matchesFilter', () => {
+  const chunk = testChunk('export', 'Export invoices as CSV.', {
+    collection: 'Billing',
+    categories: ['Invoices', 'Reports'],
+    tags: ['csv'],
+    status: 'published',
+    language: 'en',
+    lastModified: '2025-03-10T12:00:00Z',
+  });
+
+  test('matches everything with an empty filter', () => {
+    expect(matchesFilter(chunk, {})).toBe(true);
+    expect(matchesFilter(testChunk('bare', 'No metadata.'), {})).toBe(true);
+  });
+
+  test('treats chunks without a source as HelpScout articles', () => {
+    expect(matchesFilter(chunk, { source: 'helpscout' })).toBe(true);
+    expect(matchesFilter(chunk, { source: 'notion' })).toBe(false);
+    expect(matchesFilter({ ...chunk, sourceId: 'notion' }, { source: ['Notion', 'confluence'] })).toBe(true);
+  });
+
+  test('matches any listed value, ignoring case, and needs every field', () => {
+    expect(matchesFilter(chunk, { tags: ['CSV', 'pdf'] })).toBe(true);
+    expect(matchesFilter(chunk, { category: 'reports' })).toBe(true);
+    expect(matchesFilter(chunk, { collection: 'billing', status: 'draft' })).toBe(false);
+    expect(matchesFilter(testChunk('bare', 'No metadata.'), { tags: 'csv' })).toBe(false);
+  });
+
+  test('includes the start date and excludes the end date', () => {
+    expect(matchesFilter(chunk, { updatedAfter: '2025-03-10T12:00:00Z' })).toBe(true);
+    expect(matchesFilter(chunk, { updatedBefore: '2025-03-10T12:00:00Z' })).toBe(false);
+    expect(matchesFilter(chunk, { updatedAfter: '2025-01-01', updatedBefore: '2025-04-01' })).toBe(true);
+    expect(matchesFilter({ ...chunk, lastModified: '' }, { updatedAfter: '2025-01-01' })).toBe(false);
+  });
+
+  test('combines sub-filters with any and not', () => {
+    expect(matchesFilter(chunk, { any: [{ tags: 'pdf' }, { collection: 'Billing' }] })).toBe(true);
+    expect(matchesFilter(chunk, { any: [{ tags: 'pdf' }, { collection: 'Android' }] })).toBe(false);
+    expect(matchesFilter(chunk, { not: { status: 'draft' } })).toBe(true);
+    expect(matchesFilter(chunk, { not: { language: 'EN' } })).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { ArticleChunk } from './articleStore';
+
+export type FilterValue = string | string[];
+
+/**
+ * Filter expression over chunk metadata. Fields are combined with AND; a list matches
+ * any of its values. `any` matches when at least one sub-filter does, `not` when its
+ * filter doesn't. String comparisons ignore case.
+ *
+ *   { collection: 'Android', updatedAfter: '2025-01-01', not: { status: 'draft' } }
+ */
+export interface SearchFilter {
+  source?: FilterValue;
+  collection?: FilterValue;
+  category?: FilterValue; // Matches if the chunk is in any of the categories
+  tags?: FilterValue; // Matches if the chunk has any of the tags
+  status?: FilterValue;
+  language?: FilterValue; // ISO 639-1 code, e.g. 'es'
+  updatedAfter?: string; // ISO date, inclusive
+  updatedBefore?: string; // ISO date, exclusive
+  any?: SearchFilter[];
+  not?: SearchFilter;
+}
+
+const VALUE_FIELDS = ['source', 'collection', 'category', 'tags', 'status', 'language'] as const;
+const DATE_FIELDS = ['updatedAfter', 'updatedBefore'] as const;
+const MAX_DEPTH = 5;
+
+function normalise(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function toList(value: FilterValue): string[] {
+  return (Array.isArray(value) ? value : [value]).map(normalise);
+}
+
+// True when any of the chunk's values is one of the wanted values
+function matchesAny(actual: string | string[] | undefined, wanted: FilterValue): boolean {
+  if (actual === undefined) return false;
+  const allowed = toList(wanted);
+  return (Array.isArray(actual) ? actual : [actual]).some(value => allowed.includes(normalise(value)));
+}
+
+/**
+ * Whether a chunk satisfies a filter expression
+ */
+export function matchesFilter(chunk: ArticleChunk, filter: SearchFilter): boolean {
+  if (filter.source !== undefined && !matchesAny(chunk.sourceId || 'helpscout', filter.source)) return false;
+  if (filter.collection !== undefined && !matchesAny(chunk.collection, filter.collection)) return false;
+  if (filter.category !== undefined && !matchesAny(chunk.categories, filter.category)) return false;
+  if (filter.tags !== undefined && !matchesAny(chunk.tags, filter.tags)) return false;
+  if (filter.status !== undefined && !matchesAny(chunk.status, filter.status)) return false;
+  if (filter.language !== undefined && !matchesAny(chunk.language, filter.language)) return false;
+
+  if (filter.updatedAfter || filter.updatedBefore) {
+    const updated = Date.parse(chunk.lastModified);
+    // Chunks without a usable date can't satisfy a date range
+    if (isNaN(updated)) return false;
+    if (filter.updatedAfter && updated < Date.parse(filter.updatedAfter)) return false;
+    if (filter.updatedBefore && updated >= Date.parse(filter.updatedBefore)) return false;
+  }
+
+  if (filter.any && !filter.any.some(sub => matchesFilter(chunk, sub))) return false;
+  if (filter.not && matchesFilter(chunk, filter.not)) return false;
+
+  return true;
+}
+
+/**
+ * Validate a filter from a request body; returns an error message if it's malformed
+ */
+export function parseSearchFilter(input: unknown, path: string = 'filters', depth: number = 0): SearchFilter | string {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return `${path} must be an object`;
+  }
+  if (depth > MAX_DEPTH) {
+    return `${path} is nested too deeply`;
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filter: SearchFilter = {};
+
+  for (const key of Object.keys(raw)) {
+    const value = raw[key];
+    if (value === undefined || value === null) continue;
+
+    if ((VALUE_FIELDS as readonly string[]).includes(key)) {
+      const valid = typeof value === 'string' || (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string'));
+      if (!valid) return `${path}.${key} must be a string or a non-empty array of strings`;
+      filter[key as typeof VALUE_FIELDS[number]] = value as FilterValue;
+    } else if ((DATE_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) return `${path}.${key} must be an ISO date`;
+      filter[key as typeof DATE_FIELDS[number]] = value;
+    } else if (key === 'any') {
+      if (!Array.isArray(value) || value.length === 0) return `${path}.any must be a non-empty array of filters`;
+      const parsed: SearchFilter[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const sub = parseSearchFilter(value[i], `${path}.any[${i}]`, depth + 1);
+        if (typeof sub === 'string') return sub;
+        parsed.push(sub);
+      }
+      filter.any = parsed;
+    } else if (key === 'not') {
+      const sub = parseSearchFilter(value, `${path}.not`, depth + 1);
+      if (typeof sub === 'string') return sub;
+      filter.not = sub;
+    } else {
+      return `Unknown filter field: ${path}.${key}`;
+    }
+  }
+  return filter;
+}
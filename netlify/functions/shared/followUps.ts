@@ -0,0 +1,84 @@
+import OpenAI from 'openai';
+import { ArticleChunk } from './articleStore';
+import { ChatTurn } from './conversation';
+import { languageName } from './language';
+
+const FOLLOW_UPS_ENABLED = process.env.FOLLOW_UP_QUESTIONS !== 'off';
+const FOLLOW_UP_MODEL = process.env.FOLLOW_UP_MODEL || 'gpt-3.5-turbo';
+const MAX_FOLLOW_UPS = 3;
+const MAX_CHUNK_CHARS = 2000;
+// Longer suggestions don't fit on a chip
+const MAX_QUESTION_CHARS = 150;
+
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
+
+function sameQuestion(a: string, b: string): boolean {
+  const key = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  return key(a) === key(b);
+}
+
+/**
+ * Suggest up to three questions the user could ask next, each answerable from one of the
+ * chunks the answer was built from. Suggestions that don't name a chunk, or repeat a
+ * question already asked, are dropped; returns none when the request fails.
+ */
+export async function suggestFollowUps(
+  question: string,
+  chunks: ArticleChunk[],
+  options: { language: string; history?: ChatTurn[] }
+): Promise<string[]> {
+  if (!FOLLOW_UPS_ENABLED || chunks.length === 0) return [];
+
+  const documentation = chunks
+    .map((chunk, i) => `[${i + 1}] From "${chunk.articleName}":\n${chunk.text.slice(0, MAX_CHUNK_CHARS)}`)
+    .join('\n\n');
+  const asked = [question, ...(options.history || []).filter(turn => turn.role === 'user').map(turn => turn.content)];
+
+  try {
+    const completion = await getOpenAI().chat.completions.create({
+      model: FOLLOW_UP_MODEL,
+      temperature: 0.3,
+      max_tokens: 300,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: `Suggest ${MAX_FOLLOW_UPS} short follow-up questions a user might ask after the question below. `
+            + 'Each must be fully answered by one numbered documentation block and must not repeat the question. '
+            + `Write them in ${languageName(options.language)}, as the user would type them. `
+            + 'Reply with JSON {"questions": [{"question": "...", "block": n}]}.',
+        },
+        {
+          role: 'user',
+          content: `Documentation:\n\n${documentation}\n\nQuestion: ${question}`,
+        },
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content || '{}';
+    const suggestions = JSON.parse(content).questions;
+    if (!Array.isArray(suggestions)) return [];
+
+    const followUps: string[] = [];
+    for (const suggestion of suggestions) {
+      const text = typeof suggestion?.question === 'string' ? suggestion.question.trim() : '';
+      const block = Number(suggestion?.block);
+      // A suggestion the model can't tie to a block is one the docs may not answer
+      if (!text || text.length > MAX_QUESTION_CHARS || !Number.isInteger(block) || block < 1 || block > chunks.length) continue;
+      if (asked.concat(followUps).some(previous => sameQuestion(previous, text))) continue;
+      followUps.push(text);
+      if (followUps.length === MAX_FOLLOW_UPS) break;
+    }
+    return followUps;
+  } catch (error) {
+    console.error('Follow-up suggestions failed, answering without them:', error);
+    return [];
+  }
+}
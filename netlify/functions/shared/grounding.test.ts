@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { checkGrounding, getGroundingOptions, GroundingOptions } from './grounding';
+import { quietLogs, testChunk } from './testing';
+
+const chunks = [testChunk('billing', 'Invoices are sent on the first day of each month. Download invoices from the Billing page.')];
+
+const answer = 'Invoices are sent on the first day of each month [1]. Refunds take ten business days to arrive.\n'
+  + 'To download them:\n'
+  + '- Open the Billing page and download invoices [1].';
+
+function lexical(options: Partial<GroundingOptions> = {}): GroundingOptions {
+  return { method: 'lexical', removeUnsupported: false, minOverlap: 0.6, minScore: 0.5, model: 'gpt-3.5-turbo', ...options };
+}
+
+const savedApiKey = process.env.OPENAI_API_KEY;
+
+beforeEach(() => {
+  quietLogs();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  process.env.OPENAI_API_KEY = savedApiKey;
+  if (savedApiKey === undefined) delete process.env.OPENAI_API_KEY;
+  ['GROUNDING_CHECK', 'GROUNDING_MODE', 'GROUNDING_MIN_OVERLAP', 'GROUNDING_MIN_SCORE'].forEach(name => delete process.env[name]);
+});
+
+describe('checkGrounding', () => {
+  test('checks each sentence and line, skipping lead-ins and short sentences', async () => {
+    const report = await checkGrounding(`${answer}\nSee below.`, chunks, lexical());
+
+    expect(report.claims).toEqual([
+      { text: 'Invoices are sent on the first day of each month [1].', supported: true },
+      { text: 'Refunds take ten business days to arrive.', supported: false },
+      { text: '- Open the Billing page and download invoices [1].', supported: true },
+    ]);
+    expect(report.score).toBeCloseTo(2 / 3);
+    expect(report.answer).toBe(`${answer}\nSee below.`);
+  });
+
+  test('needs the share of a sentence\'s terms set by minOverlap', async () => {
+    // "open" isn't in the documentation, so the last line has four of its five terms
+    const report = await checkGrounding(answer, chunks, lexical({ minOverlap: 0.9 }));
+
+    expect(report.claims.map(claim => claim.supported)).toEqual([true, false, false]);
+  });
+
+  test('drops unsupported sentences but keeps the line breaks around them', async () => {
+    const report = await checkGrounding(answer, chunks, lexical({ removeUnsupported: true }));
+
+    expect(report.answer).toBe('Invoices are sent on the first day of each month [1].\nTo download them:\n- Open the Billing page and download invoices [1].');
+    expect(report.claims.filter(claim => !claim.supported)).toHaveLength(1);
+  });
+
+  test('scores an answer without claims as fully supported', async () => {
+    const report = await checkGrounding('See below.', chunks, lexical({ removeUnsupported: true }));
+
+    expect(report).toEqual({ method: 'lexical', score: 1, claims: [], answer: 'See below.' });
+  });
+
+  test('falls back to the lexical check when the model can\'t be reached', async () => {
+    delete process.env.OPENAI_API_KEY;
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const report = await checkGrounding(answer, chunks, lexical({ method: 'llm' }));
+    expect(error).toHaveBeenCalledWith('LLM grounding check failed, using lexical overlap:', expect.anything());
+    expect(report.method).toBe('lexical');
+    expect(report.score).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('getGroundingOptions', () => {
+  test('is off unless GROUNDING_CHECK names a method', () => {
+    expect(getGroundingOptions()).toBeNull();
+    process.env.GROUNDING_CHECK = 'off';
+    expect(getGroundingOptions()).toBeNull();
+    process.env.GROUNDING_CHECK = 'strict';
+    expect(() => getGroundingOptions()).toThrow('Unknown GROUNDING_CHECK: strict');
+  });
+
+  test('falls back to the no-answer response below GROUNDING_MIN_SCORE, 0.5 by default', async () => {
+    process.env.GROUNDING_CHECK = 'lexical';
+    const options = getGroundingOptions()!;
+    expect(options).toMatchObject({ method: 'lexical', removeUnsupported: false, minOverlap: 0.6, minScore: 0.5 });
+
+    const mostlyUnsupported = 'Refunds take ten business days to arrive. Refund requests need a signed form. Invoices are sent on the first day of each month.';
+    expect((await checkGrounding(mostlyUnsupported, chunks, options)).score).toBeLessThan(options.minScore);
+
+    // Zero turns the fallback off rather than meaning "use the default"
+    process.env.GROUNDING_MIN_SCORE = '0';
+    expect(getGroundingOptions()!.minScore).toBe(0);
+  });
+});
@@ -0,0 +1,181 @@
+import OpenAI from 'openai';
+import { ArticleChunk } from './articleStore';
+import { tokenizeForSearch } from './bm25';
+import { stripCitationMarkers } from './citations';
+
+export type GroundingMethod = 'llm' | 'lexical';
+
+export interface GroundingOptions {
+  method: GroundingMethod;
+  // Drop unsupported sentences from the answer instead of only reporting them
+  removeUnsupported: boolean;
+  // Share of a sentence's terms that must appear in the chunks (lexical method)
+  minOverlap: number;
+  // Answers scoring below this are replaced by the no-answer response
+  minScore: number;
+  model: string;
+}
+
+export interface GroundedClaim {
+  text: string;
+  supported: boolean;
+}
+
+export interface GroundingReport {
+  method: GroundingMethod;
+  // Share of claims supported by the chunks (1 when the answer makes none)
+  score: number;
+  claims: GroundedClaim[];
+  // The answer with unsupported sentences removed, when removal is on
+  answer: string;
+}
+
+// Sentences with fewer content terms than this ("See below.") aren't checked
+const MIN_CLAIM_TERMS = 3;
+const MAX_CHUNK_CHARS = 2000;
+
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
+
+/**
+ * Grounding settings from GROUNDING_CHECK ("llm" | "lexical"), GROUNDING_MODE
+ * ("flag" | "remove"), GROUNDING_MIN_OVERLAP, GROUNDING_MIN_SCORE and GROUNDING_MODEL;
+ * null when off
+ */
+export function getGroundingOptions(): GroundingOptions | null {
+  const method = process.env.GROUNDING_CHECK;
+  if (!method || method === 'off') return null;
+  if (method !== 'llm' && method !== 'lexical') {
+    throw new Error(`Unknown GROUNDING_CHECK: ${method}`);
+  }
+  return {
+    method,
+    removeUnsupported: process.env.GROUNDING_MODE === 'remove',
+    minOverlap: Number(process.env.GROUNDING_MIN_OVERLAP) || 0.6,
+    minScore: process.env.GROUNDING_MIN_SCORE !== undefined ? Number(process.env.GROUNDING_MIN_SCORE) : 0.5,
+    model: process.env.GROUNDING_MODEL || 'gpt-3.5-turbo',
+  };
+}
+
+// Sentences paired with the whitespace after them, so removing one keeps the layout
+function splitSentences(answer: string): Array<{ text: string; separator: string }> {
+  const parts = answer.split(/((?<=[.!?]["”')]*)[ \t]+|\n+)/);
+  const sentences: Array<{ text: string; separator: string }> = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    sentences.push({ text: parts[i], separator: parts[i + 1] || '' });
+  }
+  return sentences;
+}
+
+// Lead-in lines ending in a colon introduce claims rather than make them
+function isClaim(sentence: string): boolean {
+  const text = stripCitationMarkers(sentence).trim();
+  return !text.endsWith(':') && tokenizeForSearch(text).length >= MIN_CLAIM_TERMS;
+}
+
+// Supported when enough of the sentence's terms appear somewhere in the chunks
+function checkLexically(claims: string[], chunks: ArticleChunk[], minOverlap: number): boolean[] {
+  const vocabulary = new Set<string>();
+  chunks.forEach(chunk => tokenizeForSearch(`${chunk.articleName}\n${chunk.text}`).forEach(term => vocabulary.add(term)));
+
+  return claims.map(claim => {
+    const terms = Array.from(new Set(tokenizeForSearch(stripCitationMarkers(claim))));
+    const found = terms.filter(term => vocabulary.has(term)).length;
+    return terms.length === 0 || found / terms.length >= minOverlap;
+  });
+}
+
+// Ask a chat model whether the documentation entails each claim, in one request
+async function checkWithLlm(claims: string[], chunks: ArticleChunk[], model: string): Promise<boolean[]> {
+  const documentation = chunks
+    .map((chunk, i) => `[${i + 1}] From "${chunk.articleName}":\n${chunk.text.slice(0, MAX_CHUNK_CHARS)}`)
+    .join('\n\n');
+  const numbered = claims.map((claim, i) => `${i + 1}. ${stripCitationMarkers(claim)}`).join('\n');
+
+  const completion = await getOpenAI().chat.completions.create({
+    model,
+    temperature: 0,
+    response_format: { type: 'json_object' },
+    messages: [
+      {
+        role: 'system',
+        content: 'You check whether statements are supported by documentation. A statement is supported only if the '
+          + 'documentation states or directly implies it. Reply with JSON {"supported": [...]} containing one true or '
+          + 'false per statement, in order.',
+      },
+      {
+        role: 'user',
+        content: `Documentation:\n\n${documentation}\n\nStatements:\n${numbered}`,
+      },
+    ],
+  });
+
+  const content = completion.choices[0]?.message?.content || '{}';
+  const supported = JSON.parse(content).supported;
+  if (!Array.isArray(supported) || supported.length !== claims.length) {
+    throw new Error(`Grounding check returned ${Array.isArray(supported) ? supported.length : 'no'} verdicts for ${claims.length} claims`);
+  }
+  return supported.map(verdict => verdict === true);
+}
+
+/**
+ * Check each sentence of an answer against the chunks it was generated from. The LLM
+ * method falls back to the lexical one if the request fails.
+ */
+export async function checkGrounding(answer: string, chunks: ArticleChunk[], options: GroundingOptions): Promise<GroundingReport> {
+  const sentences = splitSentences(answer);
+  const claimIndexes = sentences.map((sentence, i) => (isClaim(sentence.text) ? i : -1)).filter(i => i !== -1);
+  const claims = claimIndexes.map(i => sentences[i].text.trim());
+
+  let method = options.method;
+  let verdicts: boolean[];
+  if (claims.length === 0) {
+    verdicts = [];
+  } else if (method === 'llm') {
+    try {
+      verdicts = await checkWithLlm(claims, chunks, options.model);
+    } catch (error) {
+      console.error('LLM grounding check failed, using lexical overlap:', error);
+      method = 'lexical';
+      verdicts = checkLexically(claims, chunks, options.minOverlap);
+    }
+  } else {
+    verdicts = checkLexically(claims, chunks, options.minOverlap);
+  }
+
+  const supportedCount = verdicts.filter(Boolean).length;
+  const score = claims.length > 0 ? supportedCount / claims.length : 1;
+  if (supportedCount < claims.length) {
+    console.warn(`⚠️ ${claims.length - supportedCount} of ${claims.length} answer sentences not supported by the documentation`);
+  }
+
+  let grounded = answer;
+  if (options.removeUnsupported && supportedCount < claims.length) {
+    const unsupported = new Set(claimIndexes.filter((_, i) => !verdicts[i]));
+    grounded = '';
+    let separator = '';
+    sentences.forEach((sentence, i) => {
+      if (unsupported.has(i)) {
+        // Keep its line break so the next line doesn't join the previous one
+        if (sentence.separator.includes('\n')) separator = sentence.separator;
+        return;
+      }
+      grounded += separator + sentence.text;
+      separator = sentence.separator;
+    });
+    grounded = grounded.trim();
+  }
+
+  return {
+    method,
+    score,
+    claims: claims.map((text, i) => ({ text, supported: verdicts[i] })),
+    answer: grounded,
+  };
+}
@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 of text, used to detect unchanged content across ingests
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
@@ -0,0 +1,95 @@
+/**
+ * Vector search benchmark: builds an HNSW index over synthetic clustered embeddings
+ * and compares query latency and recall against exact search.
+ *
+ *   npm run bench:vectors            (10k chunks, 1536 dimensions)
+ *   BENCH_CHUNKS=2000 BENCH_DIMENSIONS=256 npm run bench:vectors
+ *
+ * Exits non-zero if recall@10 drops below BENCH_MIN_RECALL or HNSW is not faster
+ * than exact search.
+ */
+import { createHnswIndex, HnswIndex, insertVector, searchExact, searchHnsw } from './hnsw';
+
+const CHUNKS = Number(process.env.BENCH_CHUNKS) || 10000;
+const DIMENSIONS = Number(process.env.BENCH_DIMENSIONS) || 1536;
+const QUERIES = Number(process.env.BENCH_QUERIES) || 200;
+const MIN_RECALL = Number(process.env.BENCH_MIN_RECALL) || 0.9;
+const TOP_K = 10;
+const CLUSTERS = 100;
+
+// Deterministic data so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Real embeddings cluster by topic, so sample around random centroids
+function makeVectors(count: number, centroids: Float32Array[]): Float32Array[] {
+  return Array.from({ length: count }, () => {
+    const centroid = centroids[Math.floor(random() * centroids.length)];
+    return centroid.map(value => value + gaussian() * 0.6);
+  });
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function timeQueries(queries: Float32Array[], search: (query: Float32Array) => string[]): { latencies: number[]; results: string[][] } {
+  const latencies: number[] = [];
+  const results: string[][] = [];
+  for (const query of queries) {
+    const start = process.hrtime.bigint();
+    results.push(search(query));
+    latencies.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  return { latencies, results };
+}
+
+function main(): void {
+  console.log(`📐 ${CHUNKS} vectors x ${DIMENSIONS} dimensions, ${QUERIES} queries, top ${TOP_K}`);
+
+  const centroids = Array.from({ length: CLUSTERS }, () => Float32Array.from({ length: DIMENSIONS }, gaussian));
+  const vectors = makeVectors(CHUNKS, centroids);
+  const queries = makeVectors(QUERIES, centroids);
+
+  const buildStart = Date.now();
+  const index: HnswIndex = createHnswIndex(DIMENSIONS);
+  vectors.forEach((vector, i) => insertVector(index, `chunk_${i}`, vector));
+  const buildMs = Date.now() - buildStart;
+  console.log(`🏗️ Built index in ${(buildMs / 1000).toFixed(1)}s (${(buildMs / CHUNKS).toFixed(2)}ms per vector)`);
+
+  const exact = timeQueries(queries, query => searchExact(index, query, TOP_K).map(hit => hit.id));
+  const approximate = timeQueries(queries, query => searchHnsw(index, query, TOP_K).map(hit => hit.id));
+
+  let found = 0;
+  approximate.results.forEach((ids, i) => {
+    const expected = new Set(exact.results[i]);
+    found += ids.filter(id => expected.has(id)).length;
+  });
+  const recall = found / (QUERIES * TOP_K);
+
+  for (const [name, { latencies }] of [['exact', exact], ['hnsw', approximate]] as const) {
+    console.log(`⏱️ ${name.padEnd(5)} p50 ${percentile(latencies, 0.5).toFixed(2)}ms  p95 ${percentile(latencies, 0.95).toFixed(2)}ms`);
+  }
+  console.log(`🎯 recall@${TOP_K}: ${recall.toFixed(3)}`);
+
+  const speedup = percentile(exact.latencies, 0.5) / percentile(approximate.latencies, 0.5);
+  if (recall < MIN_RECALL) {
+    console.error(`❌ Recall ${recall.toFixed(3)} is below ${MIN_RECALL}`);
+    process.exit(1);
+  }
+  if (speedup <= 1) {
+    console.error(`❌ HNSW search is not faster than exact search (${speedup.toFixed(2)}x)`);
+    process.exit(1);
+  }
+  console.log(`✅ HNSW is ${speedup.toFixed(1)}x faster than exact search`);
+}
+
+main();
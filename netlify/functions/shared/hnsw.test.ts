@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { createHnswIndex, deserializeHnsw, insertVector, removeVector, searchExact, searchHnsw, serializeHnsw } from './hnsw';
+
+const VECTORS = 2000;
+const DIMENSIONS = 64;
+const QUERIES = 50;
+const TOP_K = 10;
+
+// Fixed seed, so the graph and the recall are the same on every run
+let seed = 42;
+function random(): number {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Clustered like real embeddings, which group by topic
+const centroids = Array.from({ length: 20 }, () => Float32Array.from({ length: DIMENSIONS }, gaussian));
+function sample(): Float32Array {
+  const centroid = centroids[Math.floor(random() * centroids.length)];
+  return centroid.map(value => value + gaussian() * 0.6);
+}
+
+describe('hnsw', () => {
+  const index = createHnswIndex(DIMENSIONS);
+  Array.from({ length: VECTORS }, sample).forEach((vector, i) => insertVector(index, `v${i}`, vector));
+  const queries = Array.from({ length: QUERIES }, sample);
+
+  function recall(search: (query: Float32Array) => string[]): number {
+    let found = 0;
+    for (const query of queries) {
+      const expected = new Set(searchExact(index, query, TOP_K).map(hit => hit.id));
+      found += search(query).filter(id => expected.has(id)).length;
+    }
+    return found / (QUERIES * TOP_K);
+  }
+
+  test('recall@10 against exact search stays above 0.9', () => {
+    expect(recall(query => searchHnsw(index, query, TOP_K).map(hit => hit.id))).toBeGreaterThanOrEqual(0.9);
+  });
+
+  test('a stored graph answers exactly like the one it was saved from', () => {
+    const restored = deserializeHnsw(JSON.parse(JSON.stringify(serializeHnsw(index))));
+    queries.slice(0, 10).forEach(query => {
+      expect(searchHnsw(restored, query, TOP_K)).toEqual(searchHnsw(index, query, TOP_K));
+    });
+  });
+
+  test('removed vectors are never returned', () => {
+    const [nearest] = searchHnsw(index, queries[0], 1);
+    expect(removeVector(index, nearest.id)).toBe(true);
+
+    expect(searchHnsw(index, queries[0], TOP_K).map(hit => hit.id)).not.toContain(nearest.id);
+    expect(searchExact(index, queries[0], TOP_K).map(hit => hit.id)).not.toContain(nearest.id);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+ * (Malkov & Yashunin, 2016).
+ *
+ * Vectors are normalised on insert and packed into one Float32Array, so similarity is
+ * a plain dot product. The graph is built incrementally as vectors are added; removed
+ * vectors are tombstoned (still walked, never returned) until compactHnsw() rebuilds
+ * the graph from the live vectors.
+ */
+
+export interface HnswOptions {
+  M: number; // Links per node on upper layers; layer 0 allows 2 * M
+  efConstruction: number; // Candidate list size while inserting
+  efSearch: number; // Default candidate list size while searching
+}
+
+export interface HnswIndex {
+  dimensions: number;
+  options: HnswOptions;
+  size: number; // Nodes including tombstones
+  ids: string[];
+  nodeById: Map<string, number>;
+  vectors: Float32Array;
+  levels: number[];
+  // node -> layer -> neighbouring nodes
+  links: number[][][];
+  deleted: Set<number>;
+  entryPoint: number;
+  maxLevel: number;
+  rngState: number;
+}
+
+export interface VectorSearchOptions {
+  ef?: number; // Candidate list size; defaults to the index's efSearch
+  accept?: (id: string) => boolean; // Only return matching vectors
+}
+
+export interface VectorHit {
+  id: string;
+  similarity: number;
+}
+
+export interface SerializedHnsw {
+  version: 1;
+  dimensions: number;
+  options: HnswOptions;
+  ids: string[];
+  levels: number[];
+  links: number[][][];
+  deleted: number[];
+  entryPoint: number;
+  maxLevel: number;
+  rngState: number;
+  vectors: string; // Base64 of the packed little-endian Float32Array
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = { M: 16, efConstruction: 64, efSearch: 64 };
+
+const INITIAL_CAPACITY = 256;
+
+export function createHnswIndex(dimensions: number, options: Partial<HnswOptions> = {}): HnswIndex {
+  return {
+    dimensions,
+    options: { ...DEFAULT_HNSW_OPTIONS, ...options },
+    size: 0,
+    ids: [],
+    nodeById: new Map(),
+    vectors: new Float32Array(INITIAL_CAPACITY * dimensions),
+    levels: [],
+    links: [],
+    deleted: new Set(),
+    entryPoint: -1,
+    maxLevel: -1,
+    rngState: 0x9e3779b9,
+  };
+}
+
+// mulberry32; seeded per index so builds are reproducible
+function nextRandom(index: HnswIndex): number {
+  let t = (index.rngState = (index.rngState + 0x6d2b79f5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalise(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+function similarityTo(index: HnswIndex, query: Float32Array, node: number): number {
+  const { dimensions, vectors } = index;
+  const offset = node * dimensions;
+  let sum = 0;
+  for (let i = 0; i < dimensions; i++) sum += query[i] * vectors[offset + i];
+  return sum;
+}
+
+function nodeVector(index: HnswIndex, node: number): Float32Array {
+  return index.vectors.subarray(node * index.dimensions, (node + 1) * index.dimensions);
+}
+
+function maxLinks(index: HnswIndex, level: number): number {
+  return level === 0 ? index.options.M * 2 : index.options.M;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+// Insert keeping the list sorted best first
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].similarity > candidate.similarity) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+// Best-first search of one layer, returning up to ef nodes sorted best first
+function searchLayer(index: HnswIndex, query: Float32Array, entryPoints: Candidate[], ef: number, level: number): Candidate[] {
+  const visited = new Set<number>(entryPoints.map(candidate => candidate.node));
+  const candidates: Candidate[] = [];
+  const results: Candidate[] = [];
+  entryPoints.forEach(candidate => {
+    insertSorted(candidates, candidate);
+    insertSorted(results, candidate);
+  });
+
+  while (candidates.length > 0) {
+    const current = candidates.shift()!;
+    if (results.length >= ef && current.similarity < results[results.length - 1].similarity) break;
+
+    for (const neighbour of index.links[current.node][level] || []) {
+      if (visited.has(neighbour)) continue;
+      visited.add(neighbour);
+
+      const similarity = similarityTo(index, query, neighbour);
+      if (results.length < ef || similarity > results[results.length - 1].similarity) {
+        const candidate = { node: neighbour, similarity };
+        insertSorted(candidates, candidate);
+        insertSorted(results, candidate);
+        if (results.length > ef) results.pop();
+      }
+    }
+  }
+  return results;
+}
+
+// Keep candidates that aren't better reached through an already selected neighbour,
+// topping up with the closest of the rest; this keeps links spread across clusters
+function selectNeighbours(index: HnswIndex, candidates: Candidate[], count: number): number[] {
+  const selected: number[] = [];
+  const skipped: number[] = [];
+
+  for (const candidate of candidates) {
+    if (selected.length >= count) break;
+    const vector = nodeVector(index, candidate.node);
+    const dominated = selected.some(node => similarityTo(index, vector, node) > candidate.similarity);
+    (dominated ? skipped : selected).push(candidate.node);
+  }
+
+  for (const node of skipped) {
+    if (selected.length >= count) break;
+    selected.push(node);
+  }
+  return selected;
+}
+
+function ensureCapacity(index: HnswIndex): void {
+  const needed = (index.size + 1) * index.dimensions;
+  if (needed <= index.vectors.length) return;
+
+  const grown = new Float32Array(Math.max(needed, index.vectors.length * 2));
+  grown.set(index.vectors);
+  index.vectors = grown;
+}
+
+/**
+ * Add a vector; re-adding an id replaces its previous vector
+ */
+export function insertVector(index: HnswIndex, id: string, vector: ArrayLike<number>): void {
+  if (vector.length !== index.dimensions) {
+    throw new Error(`Vector for ${id} has ${vector.length} dimensions, index expects ${index.dimensions}`);
+  }
+  removeVector(index, id);
+  ensureCapacity(index);
+
+  const node = index.size++;
+  const normalised = normalise(vector);
+  index.vectors.set(normalised, node * index.dimensions);
+  index.ids[node] = id;
+  index.nodeById.set(id, node);
+
+  const level = Math.floor(-Math.log(1 - nextRandom(index)) / Math.log(index.options.M));
+  index.levels[node] = level;
+  index.links[node] = Array.from({ length: level + 1 }, () => []);
+
+  if (index.entryPoint === -1) {
+    index.entryPoint = node;
+    index.maxLevel = level;
+    return;
+  }
+
+  let entryPoints: Candidate[] = [{ node: index.entryPoint, similarity: similarityTo(index, normalised, index.entryPoint) }];
+
+  // Greedy descent through layers above the new node's top layer
+  for (let layer = index.maxLevel; layer > level; layer--) {
+    entryPoints = searchLayer(index, normalised, entryPoints, 1, layer);
+  }
+
+  for (let layer = Math.min(level, index.maxLevel); layer >= 0; layer--) {
+    const candidates = searchLayer(index, normalised, entryPoints, index.options.efConstruction, layer);
+    const neighbours = selectNeighbours(index, candidates, index.options.M);
+    index.links[node][layer] = neighbours;
+
+    for (const neighbour of neighbours) {
+      const links = index.links[neighbour][layer];
+      links.push(node);
+
+      if (links.length > maxLinks(index, layer)) {
+        // Dropping the weakest link is much cheaper than re-running the heuristic
+        // and costs little recall since the new node's own links used it
+        const neighbourVector = nodeVector(index, neighbour);
+        let weakest = 0;
+        let weakestSimilarity = Infinity;
+        links.forEach((linked, i) => {
+          const similarity = similarityTo(index, neighbourVector, linked);
+          if (similarity < weakestSimilarity) {
+            weakest = i;
+            weakestSimilarity = similarity;
+          }
+        });
+        links.splice(weakest, 1);
+      }
+    }
+    entryPoints = candidates;
+  }
+
+  if (level > index.maxLevel) {
+    index.entryPoint = node;
+    index.maxLevel = level;
+  }
+}
+
+/**
+ * Tombstone a vector; it stays in the graph for navigation until compaction
+ */
+export function removeVector(index: HnswIndex, id: string): boolean {
+  const node = index.nodeById.get(id);
+  if (node === undefined) return false;
+
+  index.nodeById.delete(id);
+  index.deleted.add(node);
+  return true;
+}
+
+export function hasVector(index: HnswIndex, id: string): boolean {
+  return index.nodeById.has(id);
+}
+
+/**
+ * The stored (normalised) vector for an id
+ */
+export function getVector(index: HnswIndex, id: string): Float32Array | undefined {
+  const node = index.nodeById.get(id);
+  return node === undefined ? undefined : nodeVector(index, node);
+}
+
+export function liveVectorCount(index: HnswIndex): number {
+  return index.nodeById.size;
+}
+
+/**
+ * Approximate top-k by walking the graph. Rejected vectors are still walked through,
+ * so a selective `accept` needs a larger `ef` to fill the results.
+ */
+export function searchHnsw(index: HnswIndex, query: ArrayLike<number>, limit: number, options: VectorSearchOptions = {}): VectorHit[] {
+  const { ef = index.options.efSearch, accept } = options;
+  if (index.entryPoint === -1 || liveVectorCount(index) === 0) return [];
+
+  const normalised = normalise(query);
+  let entryPoints: Candidate[] = [{ node: index.entryPoint, similarity: similarityTo(index, normalised, index.entryPoint) }];
+  for (let layer = index.maxLevel; layer > 0; layer--) {
+    entryPoints = searchLayer(index, normalised, entryPoints, 1, layer);
+  }
+
+  // Widen the search to make up for tombstones that will be filtered out
+  const width = Math.max(ef, limit) + Math.min(index.deleted.size, limit * 4);
+  return searchLayer(index, normalised, entryPoints, width, 0)
+    .filter(candidate => !index.deleted.has(candidate.node) && (!accept || accept(index.ids[candidate.node])))
+    .slice(0, limit)
+    .map(candidate => ({ id: index.ids[candidate.node], similarity: candidate.similarity }));
+}
+
+/**
+ * Exact top-k by scanning every live (and accepted) vector
+ */
+export function searchExact(index: HnswIndex, query: ArrayLike<number>, limit: number, accept?: (id: string) => boolean): VectorHit[] {
+  const normalised = normalise(query);
+  const best: Candidate[] = [];
+
+  for (let node = 0; node < index.size; node++) {
+    if (index.deleted.has(node) || (accept && !accept(index.ids[node]))) continue;
+    const similarity = similarityTo(index, normalised, node);
+    if (best.length < limit || similarity > best[best.length - 1].similarity) {
+      insertSorted(best, { node, similarity });
+      if (best.length > limit) best.pop();
+    }
+  }
+  return best.map(candidate => ({ id: index.ids[candidate.node], similarity: candidate.similarity }));
+}
+
+/**
+ * Rebuild the graph from live vectors, dropping tombstones
+ */
+export function compactHnsw(index: HnswIndex): HnswIndex {
+  const compacted = createHnswIndex(index.dimensions, index.options);
+  index.nodeById.forEach((node, id) => insertVector(compacted, id, nodeVector(index, node)));
+  return compacted;
+}
+
+export function serializeHnsw(index: HnswIndex): SerializedHnsw {
+  const packed = index.vectors.subarray(0, index.size * index.dimensions);
+  return {
+    version: 1,
+    dimensions: index.dimensions,
+    options: index.options,
+    ids: index.ids.slice(0, index.size),
+    levels: index.levels.slice(0, index.size),
+    links: index.links.slice(0, index.size),
+    deleted: Array.from(index.deleted),
+    entryPoint: index.entryPoint,
+    maxLevel: index.maxLevel,
+    rngState: index.rngState,
+    vectors: Buffer.from(packed.buffer, packed.byteOffset, packed.byteLength).toString('base64'),
+  };
+}
+
+export function deserializeHnsw(data: SerializedHnsw): HnswIndex {
+  if (data.version !== 1) {
+    throw new Error(`Unsupported vector index version: ${data.version}`);
+  }
+
+  const bytes = Buffer.from(data.vectors, 'base64');
+  // Copy into a fresh buffer; Buffer's backing store may not be 4-byte aligned
+  const vectors = new Float32Array(Math.max(data.ids.length, INITIAL_CAPACITY) * data.dimensions);
+  vectors.set(new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)));
+
+  const deleted = new Set(data.deleted);
+  const nodeById = new Map<string, number>();
+  data.ids.forEach((id, node) => {
+    if (!deleted.has(node)) nodeById.set(id, node);
+  });
+
+  return {
+    dimensions: data.dimensions,
+    options: data.options,
+    size: data.ids.length,
+    ids: data.ids,
+    nodeById,
+    vectors,
+    levels: data.levels,
+    links: data.links,
+    deleted,
+    entryPoint: data.entryPoint,
+    maxLevel: data.maxLevel,
+    rngState: data.rngState,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import * as articleStore from './articleStore';
+import { createLocalEmbeddingProvider, setEmbeddingProvider } from './embeddings';
+import { createJob, getCurrentJob, runJob } from './ingestJob';
+import { KnowledgeSource } from './sources';
+import * as tenants from './tenants';
+import { createTempStore, quietLogs, TempStore, testSource } from './testing';
+
+let store: TempStore;
+
+function useSource(source: KnowledgeSource): void {
+  jest.spyOn(tenants, 'getTenantSources').mockReturnValue([source]);
+}
+
+beforeEach(async () => {
+  quietLogs();
+  store = await createTempStore('ingest');
+  setEmbeddingProvider(createLocalEmbeddingProvider());
+});
+
+afterEach(async () => {
+  articleStore.clearArticles();
+  setEmbeddingProvider(null);
+  jest.restoreAllMocks();
+  await store.remove();
+});
+
+test('saves the index and the cursor every 20 articles', async () => {
+  useSource(testSource(45));
+  const saveIndex = jest.spyOn(articleStore, 'saveIndex');
+
+  const job = await runJob(await createJob(), Infinity);
+
+  expect(job.status).toBe('completed');
+  expect(job.diff.added).toHaveLength(45);
+  // At 20 and 40 articles, then once more when the job finishes
+  expect(saveIndex).toHaveBeenCalledTimes(3);
+  expect(await getCurrentJob()).toMatchObject({ id: job.id, status: 'completed', processed: 45 });
+});
+
+test('pauses at the deadline and resumes from its saved cursor', async () => {
+  // Each fetch takes a second on a mocked clock, so the deadline falls after the 13th
+  let clock = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  const fetched: string[] = [];
+  useSource(testSource(30, ref => {
+    fetched.push(ref.id);
+    clock += 1000;
+  }));
+
+  const paused = await runJob(await createJob(), clock + 12500);
+  expect(paused.status).toBe('paused');
+  expect(paused.cursor).toEqual({ sourceIndex: 0, sourceCursor: null, itemIndex: 13 });
+  expect(await getCurrentJob()).toMatchObject({ status: 'paused', processed: 13, cursor: paused.cursor });
+  expect(articleStore.getAllArticles()).toHaveLength(13);
+
+  fetched.length = 0;
+  const resumed = await runJob((await getCurrentJob())!, Infinity);
+  expect(resumed.status).toBe('completed');
+  expect(resumed.processed).toBe(30);
+  expect(fetched).toEqual(Array.from({ length: 17 }, (_, i) => `a${i + 13}`));
+  expect(resumed.diff.added).toHaveLength(30);
+});
+
+test('a runner whose job was replaced stops without saving the index or the job', async () => {
+  // Job ids are timestamps, so the clock moves on before the replacement is created
+  let clock = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  let replacement: string | undefined;
+  useSource(testSource(25, async ref => {
+    clock += 1000;
+    if (ref.id === 'a5') replacement = (await createJob({ refetch: true })).id;
+  }));
+  const saveIndex = jest.spyOn(articleStore, 'saveIndex');
+
+  const job = await runJob(await createJob(), Infinity);
+
+  // Stopped at the first checkpoint after the restart
+  expect(job.status).toBe('running');
+  expect(job.processed).toBe(20);
+  expect(saveIndex).not.toHaveBeenCalled();
+  expect(await getCurrentJob()).toMatchObject({ id: replacement, status: 'queued', processed: 0, refetch: true });
+});
+
+test('skips articles whose listing is unchanged unless the job refetches them', async () => {
+  useSource(testSource(3));
+  await runJob(await createJob(), Infinity);
+  const fetchArticle = jest.spyOn(tenants.getTenantSources()[0], 'fetchArticle');
+
+  const again = await runJob(await createJob(), Infinity);
+  expect(again.diff).toEqual({ added: [], updated: [], removed: [], unchanged: 3 });
+  expect(fetchArticle).not.toHaveBeenCalled();
+
+  const refetched = await runJob(await createJob({ refetch: true }), Infinity);
+  expect(fetchArticle).toHaveBeenCalledTimes(3);
+  // Same text, so nothing is re-embedded
+  expect(refetched.diff.unchanged).toBe(3);
+});
@@ -0,0 +1,480 @@
+import axios from 'axios';
+import { HandlerEvent } from '@netlify/functions';
+import {
+  Article,
+  storeArticle,
+  getArticle,
+  getAllArticles,
+  hashContent,
+  isEmbeddedWith,
+  loadIndex,
+  removeArticle,
+  saveIndex,
+  updateArticleMetadata,
+} from './articleStore';
+import { DEFAULT_CHUNKING } from './chunking';
+import { KnowledgeSource, SourceArticleRef } from './sources';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, getTenantSources, tenantStorageKey } from './tenants';
+
+export type IngestJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface IngestDiff {
+  added: Array<{ id: string; name: string }>;
+  updated: Array<{ id: string; name: string }>;
+  removed: Array<{ id: string; name: string }>;
+  unchanged: number;
+}
+
+// Position of the next article to process: source, that source's listing cursor and item within the page
+export interface IngestCursor {
+  sourceIndex: number;
+  sourceCursor: string | null;
+  itemIndex: number;
+}
+
+export interface IngestJobSource {
+  id: string;
+  type: string;
+  total: number;
+  listingComplete: boolean;
+}
+
+export interface IngestJob {
+  id: string;
+  // Tenant whose sources and index the job works on; default tenant when missing
+  tenant?: string;
+  status: IngestJobStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  sources: IngestJobSource[];
+  cursor: IngestCursor;
+  processed: number;
+  activeMs: number;
+  // Fetch every article even when its listing timestamp is unchanged (e.g. to backfill metadata)
+  refetch?: boolean;
+  seenArticleIds: string[];
+  diff: IngestDiff;
+  errors: string[];
+  errorCount: number;
+  warnings: string[];
+  warningCount: number;
+}
+
+export interface IngestJobStatusReport {
+  id: string;
+  tenant: string;
+  status: IngestJobStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  sources: Array<{ id: string; type: string }>;
+  processed: number;
+  total: number;
+  remaining: number;
+  etaSeconds: number | null;
+  diff: IngestDiff;
+  errorCount: number;
+  errors: string[];
+  warningCount: number;
+  warnings: string[];
+}
+
+const CURRENT_JOB_KEY = 'ingest-jobs/current.json';
+const JOB_HISTORY_PREFIX = 'ingest-jobs/history/';
+const MAX_JOB_HISTORY = 50;
+const MAX_STORED_ERRORS = 50;
+const CHECKPOINT_EVERY = 20; // articles between index/cursor saves
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Background functions get 15 minutes; stop early enough to checkpoint and hand off
+export const INGEST_TIME_BUDGET_MS = Number(process.env.INGEST_TIME_BUDGET_MS) || 12 * 60 * 1000;
+
+/**
+ * Load a tenant's most recent ingest job, if any
+ */
+export async function getCurrentJob(tenant: string = DEFAULT_TENANT_ID): Promise<IngestJob | null> {
+  return getStorageBackend().getJSON<IngestJob>(tenantStorageKey(tenant, CURRENT_JOB_KEY));
+}
+
+async function saveJob(job: IngestJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await getStorageBackend().setJSON(tenantStorageKey(job.tenant || DEFAULT_TENANT_ID, CURRENT_JOB_KEY), job);
+}
+
+// Keep a finished job's report, dropping the oldest beyond MAX_JOB_HISTORY
+async function recordJobHistory(job: IngestJob): Promise<void> {
+  try {
+    const storage = getStorageBackend();
+    const prefix = tenantStorageKey(job.tenant || DEFAULT_TENANT_ID, JOB_HISTORY_PREFIX);
+    // Job ids are timestamps, so keys sort oldest first
+    await storage.setJSON(`${prefix}${job.id}.json`, getJobStatusReport(job));
+    const keys = (await storage.list(prefix)).sort();
+    for (const key of keys.slice(0, Math.max(0, keys.length - MAX_JOB_HISTORY))) {
+      await storage.delete(key);
+    }
+  } catch (error) {
+    console.error(`Error recording history for ingest job ${job.id}:`, error);
+  }
+}
+
+/**
+ * A tenant's finished ingest jobs, newest first
+ */
+export async function listJobHistory(tenant: string = DEFAULT_TENANT_ID, limit: number = 10): Promise<IngestJobStatusReport[]> {
+  const storage = getStorageBackend();
+  const keys = (await storage.list(tenantStorageKey(tenant, JOB_HISTORY_PREFIX))).sort().reverse().slice(0, limit);
+  const reports = await Promise.all(keys.map(key => storage.getJSON<IngestJobStatusReport>(key)));
+  return reports.filter((report): report is IngestJobStatusReport => report !== null);
+}
+
+/**
+ * A running job whose runner stopped checkpointing (e.g. killed by a timeout)
+ */
+export function isJobStale(job: IngestJob): boolean {
+  return job.status === 'running' && Date.now() - new Date(job.updatedAt).getTime() > STALE_AFTER_MS;
+}
+
+/**
+ * Start a new ingest job over every knowledge source of a tenant
+ */
+export async function createJob(options: { refetch?: boolean; tenant?: string } = {}): Promise<IngestJob> {
+  const tenant = options.tenant || DEFAULT_TENANT_ID;
+  const sources = getTenantSources(tenant);
+  if (sources.length === 0) {
+    throw new Error('No knowledge sources configured');
+  }
+
+  const jobSources: IngestJobSource[] = [];
+  for (const source of sources) {
+    let total = 0;
+    try {
+      total = source.estimateTotal ? await source.estimateTotal() : 0;
+    } catch (error) {
+      console.error(`Error estimating article count for source ${source.id}:`, error);
+    }
+    jobSources.push({ id: source.id, type: source.type, total, listingComplete: true });
+  }
+
+  const now = new Date().toISOString();
+  const job: IngestJob = {
+    id: `ingest_${Date.now()}`,
+    tenant,
+    status: 'queued',
+    startedAt: now,
+    updatedAt: now,
+    sources: jobSources,
+    cursor: { sourceIndex: 0, sourceCursor: null, itemIndex: 0 },
+    processed: 0,
+    activeMs: 0,
+    refetch: Boolean(options.refetch),
+    seenArticleIds: [],
+    diff: { added: [], updated: [], removed: [], unchanged: 0 },
+    errors: [],
+    errorCount: 0,
+    warnings: [],
+    warningCount: 0,
+  };
+
+  await saveJob(job);
+  console.log(`🚀 Created ingest job ${job.id} for tenant ${tenant} over ${jobSources.length} sources (${jobSources.map(source => source.id).join(', ')})`);
+  return job;
+}
+
+/**
+ * Mark a job as waiting for a runner to pick it up
+ */
+export async function queueJob(job: IngestJob): Promise<IngestJob> {
+  job.status = 'queued';
+  await saveJob(job);
+  return job;
+}
+
+function recordError(job: IngestJob, message: string): void {
+  console.error(message);
+  job.errorCount++;
+  job.errors.push(message);
+  if (job.errors.length > MAX_STORED_ERRORS) {
+    job.errors = job.errors.slice(-MAX_STORED_ERRORS);
+  }
+}
+
+function recordWarning(job: IngestJob, message: string): void {
+  console.warn(message);
+  job.warningCount++;
+  job.warnings.push(message);
+  if (job.warnings.length > MAX_STORED_ERRORS) {
+    job.warnings = job.warnings.slice(-MAX_STORED_ERRORS);
+  }
+}
+
+// Whether another job became current since this runner loaded its job, e.g. a restart
+// after this runner looked stale; a superseded runner must stop without saving anything
+async function isSuperseded(job: IngestJob): Promise<boolean> {
+  const current = await getCurrentJob(job.tenant || DEFAULT_TENANT_ID);
+  if (current && current.id === job.id) return false;
+  console.log(`🛑 Ingest job ${job.id} was replaced by ${current ? current.id : 'no job'}, stopping this runner`);
+  return true;
+}
+
+// Returns when the checkpoint was taken, or null, without saving the job, if another job
+// replaced this one
+async function checkpoint(job: IngestJob, runStartedAt: number): Promise<number | null> {
+  if (await isSuperseded(job)) return null;
+  // Index first, then cursor: replaying a few articles after a crash is harmless
+  // because unchanged articles are detected and skipped
+  await saveIndex(job.tenant);
+  const now = Date.now();
+  job.activeMs += now - runStartedAt;
+  // Saving the index takes long enough for a restart to slip in
+  if (await isSuperseded(job)) return null;
+  await saveJob(job);
+  return now;
+}
+
+async function processArticle(job: IngestJob, source: KnowledgeSource, ref: SourceArticleRef): Promise<void> {
+  const stored = getArticle(ref.id, job.tenant);
+  // Articles embedded with a previously configured model are re-embedded even if unchanged
+  const embeddingsCurrent = Boolean(stored && stored.chunks.every(chunk => isEmbeddedWith(chunk, undefined, job.tenant)));
+
+  // Listing already tells us the article hasn't been touched since the last ingest
+  if (!job.refetch && stored && embeddingsCurrent && stored.contentHash && ref.updatedAt && stored.lastModified === ref.updatedAt) {
+    job.diff.unchanged++;
+    return;
+  }
+
+  const article = await source.fetchArticle(ref);
+
+  // Skip articles without content
+  if (!article || !article.text || article.text.trim().length === 0) {
+    console.log(`Skipping article ${ref.name} - no content`);
+    return;
+  }
+
+  // Timestamp moved but the text didn't (e.g. a title, category or tag edit)
+  if (stored && embeddingsCurrent && stored.contentHash === hashContent(article.text)) {
+    await updateArticleMetadata(article.id, {
+      name: article.name,
+      url: article.url,
+      lastModified: article.lastModified,
+      collection: article.collection,
+      categories: article.categories,
+      tags: article.tags,
+      status: article.status,
+      language: article.language,
+    }, { persist: false, tenant: job.tenant });
+    job.diff.unchanged++;
+    console.log(`⏭️ Content unchanged, skipped re-embedding: ${article.name} (${article.id})`);
+    return;
+  }
+
+  await storeArticle(article, { persist: false, chunking: source.chunking, tenant: job.tenant });
+
+  // Long articles are indexed in full, but flag them in case the chunk size needs tuning
+  const maxChunks = (source.chunking && source.chunking.maxChunksPerArticle) || DEFAULT_CHUNKING.maxChunksPerArticle;
+  if (article.chunks.length > maxChunks) {
+    recordWarning(job, `Article ${article.name} (${article.id}) produced ${article.chunks.length} chunks, more than the configured ${maxChunks}`);
+  }
+
+  (stored ? job.diff.updated : job.diff.added).push({ id: article.id, name: article.name });
+  console.log(`✅ ${stored ? 'Updated' : 'Added'} article: ${article.name} (${article.id})`);
+}
+
+async function finishJob(job: IngestJob): Promise<void> {
+  const seen = new Set(job.seenArticleIds);
+
+  for (const jobSource of job.sources) {
+    // Only drop articles when we know we saw the source's full listing
+    if (!jobSource.listingComplete) {
+      console.log(`⚠️ Listing for source ${jobSource.id} incomplete, skipping removal of deleted articles`);
+      continue;
+    }
+
+    for (const stored of getAllArticles(job.tenant)) {
+      if ((stored.sourceId || 'helpscout') === jobSource.id && !seen.has(stored.id)) {
+        await removeArticle(stored.id, { persist: false, tenant: job.tenant });
+        job.diff.removed.push({ id: stored.id, name: stored.name });
+        console.log(`🗑️ Removed deleted article: ${stored.name} (${stored.id})`);
+      }
+    }
+  }
+
+  job.status = 'completed';
+  job.finishedAt = new Date().toISOString();
+}
+
+/**
+ * Process a job from its cursor until it completes or the deadline passes.
+ * A job that runs out of time is left 'paused' with its cursor saved; one that another
+ * job replaced is left as it was.
+ */
+export async function runJob(job: IngestJob, deadline: number): Promise<IngestJob> {
+  let runStartedAt = Date.now();
+  let sinceCheckpoint = 0;
+  const seen = new Set(job.seenArticleIds);
+
+  if (await isSuperseded(job)) return job;
+  job.status = 'running';
+  await saveJob(job);
+
+  try {
+    // Compare against the stored index, not whatever this instance has in memory
+    await loadIndex(job.tenant);
+
+    const sources = new Map(getTenantSources(job.tenant).map(source => [source.id, source]));
+
+    while (job.cursor.sourceIndex < job.sources.length) {
+      const jobSource = job.sources[job.cursor.sourceIndex];
+      const source = sources.get(jobSource.id);
+
+      if (!source) {
+        // Source was removed from the config while the job was running
+        jobSource.listingComplete = false;
+        recordError(job, `Knowledge source ${jobSource.id} is no longer configured`);
+        job.cursor = { sourceIndex: job.cursor.sourceIndex + 1, sourceCursor: null, itemIndex: 0 };
+        continue;
+      }
+
+      let page;
+      try {
+        page = await source.listArticles(job.cursor.sourceCursor);
+      } catch (error) {
+        // Articles that couldn't be listed weren't seen, so they must not be treated as deleted
+        jobSource.listingComplete = false;
+        recordError(job, `Error listing source ${jobSource.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        job.cursor = { sourceIndex: job.cursor.sourceIndex + 1, sourceCursor: null, itemIndex: 0 };
+        continue;
+      }
+
+      if (page.errors && page.errors.length > 0 && job.cursor.itemIndex === 0) {
+        jobSource.listingComplete = false;
+        page.errors.forEach(error => recordError(job, error));
+      }
+
+      for (let i = job.cursor.itemIndex; i < page.items.length; i++) {
+        if (Date.now() >= deadline) {
+          job.status = 'paused';
+          if (await checkpoint(job, runStartedAt) === null) {
+            // Never 'paused', so nothing re-invokes a runner for it
+            job.status = 'running';
+            return job;
+          }
+          console.log(`⏸️ Ingest job ${job.id} paused at ${JSON.stringify(job.cursor)}`);
+          return job;
+        }
+
+        const ref = page.items[i];
+        if (!seen.has(ref.id)) {
+          seen.add(ref.id);
+          job.seenArticleIds.push(ref.id);
+        }
+
+        try {
+          await processArticle(job, source, ref);
+        } catch (error) {
+          recordError(job, `Error processing article ${ref.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        job.processed++;
+        job.cursor.itemIndex = i + 1;
+
+        if (++sinceCheckpoint >= CHECKPOINT_EVERY) {
+          const checkpointedAt = await checkpoint(job, runStartedAt);
+          if (checkpointedAt === null) return job;
+          runStartedAt = checkpointedAt;
+          sinceCheckpoint = 0;
+        }
+      }
+
+      job.cursor = page.nextCursor !== null
+        ? { sourceIndex: job.cursor.sourceIndex, sourceCursor: page.nextCursor, itemIndex: 0 }
+        : { sourceIndex: job.cursor.sourceIndex + 1, sourceCursor: null, itemIndex: 0 };
+    }
+
+    // Removing deleted articles goes by this job's listing, so only the current job may do it
+    if (await isSuperseded(job)) return job;
+    await finishJob(job);
+    if (await checkpoint(job, runStartedAt) === null) return job;
+    await recordJobHistory(job);
+    console.log(`🏁 Ingest job ${job.id} completed: ${job.processed} articles processed`);
+  } catch (error) {
+    if (await isSuperseded(job)) return job;
+    recordError(job, `Ingest job failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    job.status = 'failed';
+    job.finishedAt = new Date().toISOString();
+    job.activeMs += Date.now() - runStartedAt;
+    await saveJob(job);
+    await recordJobHistory(job);
+  }
+
+  return job;
+}
+
+/**
+ * Fetch one article again from its knowledge source and re-chunk and re-embed it, even if
+ * it hasn't changed. Returns null for an article the tenant's index doesn't have, or why
+ * it couldn't be re-indexed.
+ */
+export async function reindexArticle(id: string, tenant: string = DEFAULT_TENANT_ID): Promise<Article | string | null> {
+  await loadIndex(tenant);
+  const stored = getArticle(id, tenant);
+  if (!stored) return null;
+
+  const sourceId = stored.sourceId || 'helpscout';
+  const source = getTenantSources(tenant).find(candidate => candidate.id === sourceId);
+  if (!source) {
+    return `Knowledge source ${sourceId} is no longer configured`;
+  }
+
+  const article = await source.fetchArticle({ id: stored.id, name: stored.name });
+  if (!article || !article.text || article.text.trim().length === 0) {
+    return `Article ${id} is no longer available from source ${sourceId}; delete it instead`;
+  }
+
+  await storeArticle(article, { chunking: source.chunking, tenant });
+  console.log(`🔁 Re-indexed article: ${article.name} (${article.id}) - ${article.chunks.length} chunks`);
+  return article;
+}
+
+/**
+ * Summarise a job for the status endpoint
+ */
+export function getJobStatusReport(job: IngestJob): IngestJobStatusReport {
+  const total = job.sources.reduce((sum, source) => sum + source.total, 0);
+  const remaining = job.status === 'completed' ? 0 : Math.max(0, total - job.processed);
+  const msPerArticle = job.processed > 0 ? job.activeMs / job.processed : null;
+
+  return {
+    id: job.id,
+    tenant: job.tenant || DEFAULT_TENANT_ID,
+    status: isJobStale(job) ? 'paused' : job.status,
+    startedAt: job.startedAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt,
+    sources: job.sources.map(source => ({ id: source.id, type: source.type })),
+    processed: job.processed,
+    total: Math.max(total, job.processed),
+    remaining,
+    etaSeconds: msPerArticle !== null && job.status !== 'completed' ? Math.round((remaining * msPerArticle) / 1000) : null,
+    diff: job.diff,
+    errorCount: job.errorCount,
+    errors: job.errors.slice(-10),
+    warningCount: job.warningCount,
+    warnings: job.warnings.slice(-10),
+  };
+}
+
+/**
+ * Kick off the background ingest function for a tenant's current job
+ */
+export async function triggerBackgroundIngest(event: HandlerEvent, tenant: string = DEFAULT_TENANT_ID): Promise<void> {
+  const host = event.headers['x-forwarded-host'] || event.headers.host;
+  const protocol = event.headers['x-forwarded-proto'] || 'https';
+  const baseUrl = process.env.URL || `${protocol}://${host}`;
+
+  // Background functions respond 202 immediately and keep running
+  await axios.post(`${baseUrl}/.netlify/functions/ingest-background`, { tenant }, {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,127 @@
+import { ChatTurn } from './conversation';
+
+/**
+ * Lightweight language identification for articles and questions, from common function
+ * words and language-specific letters. Good enough to tell apart the languages a help
+ * centre is written in; text too short to judge comes back undetermined.
+ */
+
+export interface LanguageDetection {
+  // ISO 639-1 code, or null when the text doesn't say enough
+  language: string | null;
+  // Share of the matched evidence pointing at the chosen language (0-1)
+  confidence: number;
+}
+
+/**
+ * Which language a chat answer is written in, and why
+ */
+export interface AnswerLanguage {
+  language: string;
+  // Detected language of the question itself
+  detected: string | null;
+  // 'request' when the caller named it, 'question' or 'history' when detected from the
+  // user's words, 'documentation' when taken from the matching chunks, 'default' otherwise
+  from: 'request' | 'question' | 'history' | 'documentation' | 'default';
+}
+
+interface LanguageProfile {
+  name: string;
+  words: Set<string>;
+  letters: RegExp;
+}
+
+// Words shared by several languages ("de", "la", "en") count for each of them, so only
+// the distinctive ones decide
+const LANGUAGES: Record<string, LanguageProfile> = {
+  en: {
+    name: 'English',
+    words: new Set(['the', 'and', 'is', 'are', 'to', 'of', 'how', 'what', 'do', 'does', 'i', 'my', 'can', 'you', 'your',
+      'with', 'for', 'it', 'this', 'that', 'on', 'not', 'be', 'have', 'where', 'why', 'which', 'when', 'from', 'will']),
+    letters: /(?!)/g,
+  },
+  es: {
+    name: 'Spanish',
+    words: new Set(['el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'para', 'con',
+      'cómo', 'como', 'qué', 'puedo', 'mi', 'mis', 'se', 'no', 'lo', 'al', 'su', 'sus', 'está', 'son', 'hay', 'dónde', 'cuál']),
+    letters: /[ñ¿¡áíóú]/g,
+  },
+  fr: {
+    name: 'French',
+    words: new Set(['le', 'la', 'les', 'de', 'des', 'du', 'et', 'est', 'un', 'une', 'en', 'pour', 'que', 'qui', 'dans',
+      'comment', 'je', 'mon', 'ma', 'mes', 'pas', 'sur', 'avec', 'au', 'aux', 'ce', 'vous', 'votre', 'il', 'où', 'puis']),
+    letters: /[çœàèùêâîôûë]/g,
+  },
+  de: {
+    name: 'German',
+    words: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'ein', 'eine', 'zu', 'mit', 'wie', 'kann', 'mein',
+      'auf', 'für', 'den', 'dem', 'von', 'sie', 'es', 'im', 'wir', 'wo', 'was', 'warum', 'meine', 'bei']),
+    letters: /[äöüß]/g,
+  },
+};
+
+// Enough words to be sure about an article; scanning more only costs time
+const MAX_WORDS = 2000;
+// Evidence needed before committing to a language
+const MIN_SCORE = 2;
+
+/**
+ * Codes of the languages detectLanguage can recognise
+ */
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES);
+
+export const DEFAULT_LANGUAGE = process.env.DEFAULT_LANGUAGE || 'en';
+
+/**
+ * Reduce a language tag from a source ("es-MX", "FR") to its ISO 639-1 code
+ */
+export function normaliseLanguage(tag: string): string {
+  return tag.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * English name of a language code, for prompts; the code itself when unknown
+ */
+export function languageName(code: string): string {
+  return LANGUAGES[code] ? LANGUAGES[code].name : code;
+}
+
+/**
+ * Identify the language of a text
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const lower = text.toLowerCase();
+  const words = (lower.match(/\p{L}+/gu) || []).slice(0, MAX_WORDS);
+
+  const scores = SUPPORTED_LANGUAGES.map(code => {
+    const { words: common, letters } = LANGUAGES[code];
+    const wordHits = words.filter(word => common.has(word)).length;
+    // Accented letters are strong evidence in short questions, capped so they can't swamp the words
+    const letterHits = Math.min((lower.match(letters) || []).length, Math.max(2, words.length / 10));
+    return { code, score: wordHits + letterHits };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+  if (best.score < MIN_SCORE || best.score === runnerUp.score) {
+    return { language: null, confidence: 0 };
+  }
+  return { language: best.code, confidence: best.score / total };
+}
+
+/**
+ * Pick the answer language: the one the request names, else the question's, else that of
+ * the user's most recent earlier message that says enough, else DEFAULT_LANGUAGE
+ */
+export function resolveAnswerLanguage(question: string, history: ChatTurn[], requested?: string): AnswerLanguage {
+  const detected = detectLanguage(question).language;
+  if (requested) return { language: requested, detected, from: 'request' };
+  if (detected) return { language: detected, detected, from: 'question' };
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role !== 'user') continue;
+    const earlier = detectLanguage(history[i].content).language;
+    if (earlier) return { language: earlier, detected, from: 'history' };
+  }
+  return { language: DEFAULT_LANGUAGE, detected, from: 'default' };
+}
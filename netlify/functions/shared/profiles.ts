@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_TENANT_ID, requireTenant } from './tenants';
+
+/**
+ * How the assistant answers: prompts, model, generation settings and retrieval depth.
+ * Prompt templates can use {{brandName}}, {{context}} (the numbered documentation
+ * blocks), {{question}} and {{language}} (the language to answer in, e.g. "Spanish").
+ */
+export interface AssistantProfile {
+  name: string;
+  description?: string;
+  brandName: string;
+  systemPrompt: string;
+  // The user message carrying the documentation and question
+  contextTemplate: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  // Number of chunks retrieved as context
+  retrievalLimit: number;
+  // Answer given when the documentation has nothing relevant
+  fallbackText: string;
+  // Translations of fallbackText by language code, for questions in other languages
+  fallbackTextByLanguage: Record<string, string>;
+}
+
+// Profiles in config only need the fields they change from the default profile
+export type AssistantProfileConfig = Partial<Omit<AssistantProfile, 'name'>>;
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+const DEFAULT_PROFILE: AssistantProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  brandName: process.env.BRAND_NAME || 'our product',
+  systemPrompt: `You are a documentation assistant that can ONLY use the provided documentation.
+
+CRITICAL RULES:
+- You MUST use ONLY the exact text from the documentation provided
+- Do NOT add any information not explicitly stated in the documentation
+- Do NOT use general knowledge about testing, development, or any other topics
+- Quote directly from the documentation whenever possible
+- If asked about something not in the documentation, say "This information is not available in the provided documentation"
+
+RESPONSE FORMAT:
+- Start with "Based on the provided documentation:"
+- Use only facts stated in the documentation
+- Quote specific phrases when relevant, in double quotes and exactly as written
+- Reference the article name(s) mentioned
+- After each statement, cite the numbered documentation block(s) it comes from, like [1] or [2, 3]
+- Answer in {{language}}, even when the documentation is in another language, but keep quoted text exactly as written in the documentation`,
+  contextTemplate: `Based on the following documentation:
+
+{{context}}Please answer the user's question based on this documentation. If the documentation doesn't contain the answer, say so honestly.
+
+User question: {{question}}`,
+  model: 'gpt-3.5-turbo',
+  temperature: 0.3,
+  maxTokens: 700,
+  retrievalLimit: 5,
+  fallbackText: process.env.NO_ANSWER_MESSAGE || "I couldn't find anything in the documentation that answers this question.",
+  // A custom NO_ANSWER_MESSAGE needs its own translations
+  fallbackTextByLanguage: process.env.NO_ANSWER_MESSAGE ? {} : {
+    es: 'No encontré nada en la documentación que responda a esta pregunta.',
+    fr: "Je n'ai rien trouvé dans la documentation qui réponde à cette question.",
+    de: 'Ich habe in der Dokumentation nichts gefunden, das diese Frage beantwortet.',
+  },
+};
+
+const STRING_FIELDS = ['description', 'brandName', 'systemPrompt', 'contextTemplate', 'model', 'fallbackText'] as const;
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  temperature: [0, 2],
+  maxTokens: [1, 16384],
+  topP: [0, 1],
+  presencePenalty: [-2, 2],
+  frequencyPenalty: [-2, 2],
+  retrievalLimit: [1, 20],
+};
+
+// Loaded profiles by tenant id
+const profiles = new Map<string, Map<string, AssistantProfile>>();
+
+function validateProfile(name: string, config: unknown): AssistantProfileConfig {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Assistant profile ${name} must be an object`);
+  }
+
+  const raw = config as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    const value = raw[key];
+    if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string') throw new Error(`Assistant profile ${name}: ${key} must be a string`);
+    } else if (key === 'fallbackTextByLanguage') {
+      const valid = typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every(text => typeof text === 'string');
+      if (!valid) throw new Error(`Assistant profile ${name}: ${key} must be an object of strings by language code`);
+    } else if (NUMBER_RANGES[key]) {
+      const [min, max] = NUMBER_RANGES[key];
+      if (typeof value !== 'number' || value < min || value > max) {
+        throw new Error(`Assistant profile ${name}: ${key} must be a number from ${min} to ${max}`);
+      }
+    } else {
+      throw new Error(`Assistant profile ${name}: unknown field ${key}`);
+    }
+  }
+  return raw as AssistantProfileConfig;
+}
+
+// Profile configs from ASSISTANT_PROFILES_FILE (default config/assistant-profiles.json)
+// and ASSISTANT_PROFILES (JSON), the latter winning for names in both
+function readProfileConfigs(): Record<string, unknown> {
+  const configs: Record<string, unknown> = {};
+
+  const file = path.resolve(process.env.ASSISTANT_PROFILES_FILE || 'config/assistant-profiles.json');
+  if (fs.existsSync(file)) {
+    Object.assign(configs, JSON.parse(fs.readFileSync(file, 'utf8')));
+    console.log(`🎭 Loaded assistant profiles from ${file}`);
+  } else if (process.env.ASSISTANT_PROFILES_FILE) {
+    throw new Error(`Assistant profiles file not found: ${file}`);
+  }
+
+  if (process.env.ASSISTANT_PROFILES) {
+    const inline = JSON.parse(process.env.ASSISTANT_PROFILES);
+    if (typeof inline !== 'object' || inline === null || Array.isArray(inline)) {
+      throw new Error('ASSISTANT_PROFILES must be a JSON object of profiles by name');
+    }
+    Object.assign(configs, inline);
+  }
+  return configs;
+}
+
+// Fields a profile config leaves out come from `base`; the base's translations only carry
+// over while the fallback text they translate does
+function extendProfile(base: AssistantProfile, name: string, config: AssistantProfileConfig): AssistantProfile {
+  const translations = config.fallbackText !== undefined && !config.fallbackTextByLanguage ? {} : base.fallbackTextByLanguage;
+  return { ...base, fallbackTextByLanguage: translations, ...config, name };
+}
+
+// A tenant's profile settings are layered field by field over the deployment's, so a
+// tenant can rebrand every profile by changing only "default"
+function withTenantConfigs(configs: Record<string, unknown>, tenantId: string): Record<string, unknown> {
+  const tenantConfigs = requireTenant(tenantId).profiles;
+  const merged = { ...configs };
+  Object.keys(tenantConfigs).forEach(name => {
+    const label = `${tenantId}/${name}`;
+    const tenant = validateProfile(label, tenantConfigs[name]);
+    const profile = { ...(configs[name] ? validateProfile(name, configs[name]) : {}), ...tenant };
+    // Translations of the deployment's fallback text don't fit the tenant's own
+    if (tenant.fallbackText !== undefined && !tenant.fallbackTextByLanguage) delete profile.fallbackTextByLanguage;
+    merged[name] = profile;
+  });
+  return merged;
+}
+
+/**
+ * Every profile configured for a tenant by name, always including "default"
+ */
+export function getAssistantProfiles(tenant: string = DEFAULT_TENANT_ID): Map<string, AssistantProfile> {
+  let loaded = profiles.get(tenant);
+  if (!loaded) {
+    const configs = withTenantConfigs(readProfileConfigs(), tenant);
+    // A configured "default" adjusts the built-in one that other profiles extend
+    const base = extendProfile(
+      DEFAULT_PROFILE,
+      DEFAULT_PROFILE_NAME,
+      configs[DEFAULT_PROFILE_NAME] ? validateProfile(DEFAULT_PROFILE_NAME, configs[DEFAULT_PROFILE_NAME]) : {}
+    );
+
+    const tenantProfiles = new Map<string, AssistantProfile>([[DEFAULT_PROFILE_NAME, base]]);
+    Object.keys(configs)
+      .filter(name => name !== DEFAULT_PROFILE_NAME)
+      .forEach(name => tenantProfiles.set(name, extendProfile(base, name, validateProfile(name, configs[name]))));
+    loaded = tenantProfiles;
+    profiles.set(tenant, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * A tenant's profile by name, or its default one (the tenant's defaultProfile, then
+ * DEFAULT_ASSISTANT_PROFILE) when no name is given; undefined if it doesn't exist
+ */
+export function getAssistantProfile(name?: string, tenant: string = DEFAULT_TENANT_ID): AssistantProfile | undefined {
+  const fallback = requireTenant(tenant).defaultProfile || process.env.DEFAULT_ASSISTANT_PROFILE || DEFAULT_PROFILE_NAME;
+  return getAssistantProfiles(tenant).get(name || fallback);
+}
+
+/**
+ * Override a tenant's loaded profiles (useful for testing); null re-reads the config
+ * for every tenant
+ */
+export function setAssistantProfiles(next: Map<string, AssistantProfile> | null, tenant: string = DEFAULT_TENANT_ID): void {
+  if (next) {
+    profiles.set(tenant, next);
+  } else {
+    profiles.clear();
+  }
+}
+
+/**
+ * A profile's fallback text in the given language, or its untranslated one
+ */
+export function fallbackTextFor(profile: AssistantProfile, language: string): string {
+  return profile.fallbackTextByLanguage[language] || profile.fallbackText;
+}
+
+/**
+ * Fill {{variable}} placeholders; unknown ones are left as written
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (variables[key] !== undefined ? variables[key] : match));
+}
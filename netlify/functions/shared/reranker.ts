@@ -0,0 +1,169 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+
+/**
+ * Re-scores search candidates against the query. Scores are 0-1, higher is more relevant.
+ */
+export interface Reranker {
+  type: string;
+  rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+export interface LlmRerankerConfig {
+  type: 'llm';
+  model?: string;
+  apiKey?: string;
+}
+
+// Any service implementing Cohere's /rerank API (Cohere, Jina, Voyage) or
+// Hugging Face text-embeddings-inference's /rerank
+export interface CrossEncoderRerankerConfig {
+  type: 'cross-encoder';
+  url: string;
+  model?: string;
+  apiKey?: string;
+}
+
+export type RerankerConfig = LlmRerankerConfig | CrossEncoderRerankerConfig;
+
+const DEFAULT_LLM_RERANK_MODEL = 'gpt-3.5-turbo';
+// Long passages are cut so the whole candidate list fits one prompt
+const MAX_PASSAGE_CHARS = 1500;
+
+/**
+ * Asks a chat model to grade every passage in one request
+ */
+export function createLlmReranker(config: LlmRerankerConfig): Reranker {
+  const model = config.model || DEFAULT_LLM_RERANK_MODEL;
+  let client: OpenAI | null = null;
+
+  return {
+    type: 'llm',
+    async rerank(query, passages) {
+      if (!client) {
+        client = new OpenAI({ apiKey: config.apiKey || process.env.OPENAI_API_KEY });
+      }
+
+      const numbered = passages
+        .map((passage, i) => `[${i + 1}] ${passage.slice(0, MAX_PASSAGE_CHARS)}`)
+        .join('\n\n');
+
+      const completion = await client.chat.completions.create({
+        model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: 'You grade how well documentation passages answer a question. '
+              + 'Reply with JSON {"scores": [...]} containing one integer from 0 to 10 per passage, in order. '
+              + '10 means the passage directly answers the question, 0 means it is unrelated.',
+          },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nPassages:\n\n${numbered}`,
+          },
+        ],
+      });
+
+      const content = completion.choices[0]?.message?.content || '{}';
+      const scores = JSON.parse(content).scores;
+      if (!Array.isArray(scores)) {
+        throw new Error(`Re-ranker returned no scores: ${content}`);
+      }
+      return passages.map((_, i) => {
+        const score = Number(scores[i]);
+        return isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0;
+      });
+    },
+  };
+}
+
+/**
+ * Calls a hosted cross-encoder rerank endpoint
+ */
+export function createCrossEncoderReranker(config: CrossEncoderRerankerConfig): Reranker {
+  return {
+    type: 'cross-encoder',
+    async rerank(query, passages) {
+      const response = await axios.post(
+        config.url,
+        // `documents` for Cohere-style APIs, `texts` for text-embeddings-inference
+        { model: config.model, query, documents: passages, texts: passages, top_n: passages.length },
+        { headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {} }
+      );
+
+      const results: Array<{ index: number; relevance_score?: number; score?: number }> =
+        Array.isArray(response.data) ? response.data : response.data.results;
+      if (!Array.isArray(results)) {
+        throw new Error('Unexpected rerank response shape');
+      }
+
+      const scores = new Array<number>(passages.length).fill(0);
+      results.forEach(result => {
+        const score = result.relevance_score !== undefined ? result.relevance_score : result.score;
+        if (typeof score === 'number') scores[result.index] = score;
+      });
+      return scores;
+    },
+  };
+}
+
+export function createReranker(config: RerankerConfig): Reranker {
+  switch (config.type) {
+    case 'llm':
+      return createLlmReranker(config);
+    case 'cross-encoder':
+      return createCrossEncoderReranker(config);
+    default: {
+      // Configs can come from untyped callers, so an unknown type can still reach here
+      const unknownConfig: { type: string } = config;
+      throw new Error(`Unknown reranker type: ${unknownConfig.type}`);
+    }
+  }
+}
+
+/**
+ * Reranker config from RERANKER ("llm" | "cross-encoder"), RERANK_MODEL, RERANK_URL
+ * and RERANK_API_KEY; null when re-ranking is off
+ */
+export function getRerankerConfig(): RerankerConfig | null {
+  const type = process.env.RERANKER;
+  if (!type || type === 'none') return null;
+
+  if (type === 'llm') {
+    return { type, model: process.env.RERANK_MODEL || undefined, apiKey: process.env.RERANK_API_KEY || undefined };
+  }
+  if (type === 'cross-encoder') {
+    if (!process.env.RERANK_URL) {
+      throw new Error('RERANK_URL is required for the cross-encoder reranker');
+    }
+    return {
+      type,
+      url: process.env.RERANK_URL,
+      model: process.env.RERANK_MODEL || undefined,
+      apiKey: process.env.RERANK_API_KEY || undefined,
+    };
+  }
+  throw new Error(`Unknown RERANKER: ${type}`);
+}
+
+let reranker: Reranker | null | undefined;
+
+/**
+ * The configured reranker, or null when re-ranking is off
+ */
+export function getReranker(): Reranker | null {
+  if (reranker === undefined) {
+    const config = getRerankerConfig();
+    reranker = config ? createReranker(config) : null;
+  }
+  return reranker;
+}
+
+/**
+ * Override the reranker (useful for testing); undefined re-reads the config
+ */
+export function setReranker(next: Reranker | null | undefined): void {
+  reranker = next;
+}
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment node
+ */
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createHelpScoutSource, listCollections } from './helpscout';
+import { KnowledgeSource, SourceArticleRef, SourcePage } from './types';
+
+jest.mock('axios', () => ({ get: jest.fn() }));
+
+const mockedGet = axios.get as jest.Mock;
+
+// Canned Docs API responses keyed by path and page
+const responses: Record<string, unknown> = JSON.parse(
+  readFileSync(path.join(__dirname, '__fixtures__', 'helpscout.json'), 'utf8')
+);
+
+async function listAll(source: KnowledgeSource) {
+  const items: SourceArticleRef[] = [];
+  const cursors: Array<string | null> = [];
+  const errors: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: SourcePage = await source.listArticles(cursor);
+    items.push(...page.items);
+    errors.push(...(page.errors || []));
+    cursor = page.nextCursor;
+    cursors.push(cursor);
+  } while (cursor !== null);
+
+  return { items, cursors, errors };
+}
+
+describe('helpscout source', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockedGet.mockImplementation(async (url: string, options: { params?: { page?: number } }) => {
+      const apiPath = url.replace('https://docsapi.helpscout.net/v1', '');
+      const key = options.params && options.params.page ? `${apiPath}?page=${options.params.page}` : apiPath;
+      if (responses[key] === undefined) {
+        throw new Error('Request failed with status code 500');
+      }
+      return { data: responses[key] };
+    });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  test('authenticates with the API key as the username', async () => {
+    const source = createHelpScoutSource({ type: 'helpscout', apiKey: 'hs-key' });
+    await source.listArticles(null);
+
+    expect(mockedGet).toHaveBeenCalledWith('https://docsapi.helpscout.net/v1/collections', expect.objectContaining({
+      auth: { username: 'hs-key', password: 'X' },
+      params: { page: 1 },
+    }));
+  });
+
+  test('walks every collection and article page through the cursor', async () => {
+    const source = createHelpScoutSource({ type: 'helpscout', apiKey: 'hs-key' });
+    const { items, cursors } = await listAll(source);
+
+    expect(items.map(item => item.id)).toEqual(['art-1', 'art-2', 'art-3']);
+    expect(cursors.map(cursor => cursor && JSON.parse(cursor))).toEqual([
+      { collection: 0, page: 2 },
+      { collection: 1, page: 1 },
+      { collection: 2, page: 1 },
+      null,
+    ]);
+    expect(await source.estimateTotal!()).toBe(4);
+  });
+
+  test('reports a failed collection listing as a page error and moves on', async () => {
+    const source = createHelpScoutSource({ type: 'helpscout', apiKey: 'hs-key' });
+    const { items, errors } = await listAll(source);
+
+    expect(items).toHaveLength(3);
+    expect(errors).toEqual(['Error listing collection col-2 page 1: Request failed with status code 500']);
+  });
+
+  test('maps an article and resolves collection and category names', async () => {
+    const source = createHelpScoutSource({ type: 'helpscout', id: 'docs', apiKey: 'hs-key' });
+    const article = await source.fetchArticle({ id: 'art-1', name: 'Installing' });
+
+    expect(article).toEqual({
+      id: 'art-1',
+      sourceId: 'docs',
+      name: 'Installing',
+      text: '<p>Download the installer.</p>',
+      url: 'https://docs.example.com/article/art-1',
+      lastModified: '2024-01-10T00:00:00Z',
+      collection: 'Getting Started',
+      categories: ['Setup', 'cat-unknown'],
+      tags: ['install'],
+      status: 'published',
+      chunks: [],
+    });
+  });
+
+  test('rejects when an article cannot be fetched', async () => {
+    const source = createHelpScoutSource({ type: 'helpscout', apiKey: 'hs-key' });
+    await expect(source.fetchArticle({ id: 'art-404', name: '' })).rejects.toThrow('status code 500');
+  });
+
+  test('falls back to the requested page when page fields are missing or malformed', async () => {
+    mockedGet.mockResolvedValueOnce({ data: { collections: { page: '2', pages: null, items: [{ id: 'col-1', name: 'Getting Started' }] } } });
+
+    expect(await listCollections('hs-key', 3)).toEqual({
+      items: [{ id: 'col-1', name: 'Getting Started' }],
+      page: 3,
+      pages: 1,
+      count: 1,
+    });
+  });
+
+  test('rejects a listing without an items array', async () => {
+    mockedGet.mockResolvedValueOnce({ data: { collections: { items: 'none' } } });
+
+    await expect(listCollections('hs-key')).rejects.toThrow('Cannot find collections array in response');
+  });
+
+  test('needs an API key', () => {
+    const apiKey = process.env.HELPSCOUT_API_KEY;
+    delete process.env.HELPSCOUT_API_KEY;
+
+    try {
+      expect(() => createHelpScoutSource({ type: 'helpscout' })).toThrow('HelpScout API key not configured for source helpscout');
+    } finally {
+      if (apiKey !== undefined) process.env.HELPSCOUT_API_KEY = apiKey;
+    }
+  });
+});
@@ -0,0 +1,249 @@
+import axios from 'axios';
+import { Article } from '../articleStore';
+import { HelpScoutSourceConfig, KnowledgeSource } from './types';
+
+const HELPSCOUT_API_BASE = 'https://docsapi.helpscout.net/v1';
+const ARTICLES_PAGE_SIZE = 100; // HelpScout's maximum
+
+export interface HelpScoutCollection {
+  id: string;
+  name: string;
+  articleCount?: number;
+}
+
+export interface HelpScoutCategory {
+  id: string;
+  name: string;
+}
+
+export interface HelpScoutArticleRef {
+  id: string;
+  name: string;
+  updatedAt?: string;
+}
+
+export interface HelpScoutPage<T> {
+  items: T[];
+  page: number;
+  pages: number;
+  count: number;
+}
+
+async function helpscoutGet(apiKey: string, path: string, params?: Record<string, string | number>) {
+  const response = await axios.get(`${HELPSCOUT_API_BASE}${path}`, {
+    auth: {
+      username: apiKey,
+      password: 'X', // HelpScout uses API key as username, password can be anything
+    },
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    params,
+  });
+  return response.data;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// HelpScout nests list responses as { <key>: { page, pages, count, items } }, with a few older shapes
+function toPage<T>(data: unknown, key: string, page: number): HelpScoutPage<T> {
+  const container = isObject(data) && data[key] !== undefined ? data[key] : data;
+
+  if (isObject(container) && Array.isArray(container.items)) {
+    const { items } = container;
+    return {
+      // Item fields are read where each listing uses them
+      items: items as T[],
+      page: typeof container.page === 'number' && container.page > 0 ? container.page : page,
+      pages: typeof container.pages === 'number' && container.pages > 0 ? container.pages : 1,
+      count: typeof container.count === 'number' ? container.count : items.length,
+    };
+  }
+
+  if (Array.isArray(container)) {
+    return { items: container as T[], page, pages: 1, count: container.length };
+  }
+
+  throw new Error(`Cannot find ${key} array in response: ${JSON.stringify(data)}`);
+}
+
+/**
+ * Fetch one page of Docs collections
+ */
+export async function listCollections(apiKey: string, page: number = 1): Promise<HelpScoutPage<HelpScoutCollection>> {
+  const data = await helpscoutGet(apiKey, '/collections', { page });
+  return toPage<HelpScoutCollection>(data, 'collections', page);
+}
+
+/**
+ * Fetch every Docs collection, following pagination
+ */
+export async function listAllCollections(apiKey: string): Promise<HelpScoutCollection[]> {
+  const collections: HelpScoutCollection[] = [];
+  let page = 1;
+  let pages = 1;
+
+  do {
+    const result = await listCollections(apiKey, page);
+    collections.push(...result.items);
+    pages = result.pages;
+    page++;
+  } while (page <= pages);
+
+  return collections;
+}
+
+/**
+ * Fetch every category in a collection
+ */
+export async function listCategories(apiKey: string, collectionId: string): Promise<HelpScoutCategory[]> {
+  const categories: HelpScoutCategory[] = [];
+  let page = 1;
+  let pages = 1;
+
+  do {
+    const data = await helpscoutGet(apiKey, `/collections/${collectionId}/categories`, { page });
+    const result = toPage<HelpScoutCategory>(data, 'categories', page);
+    categories.push(...result.items);
+    pages = result.pages;
+    page++;
+  } while (page <= pages);
+
+  return categories;
+}
+
+/**
+ * Fetch one page of article references in a collection
+ */
+export async function listArticles(
+  apiKey: string,
+  collectionId: string,
+  page: number = 1
+): Promise<HelpScoutPage<HelpScoutArticleRef>> {
+  const data = await helpscoutGet(apiKey, `/collections/${collectionId}/articles`, {
+    page,
+    pageSize: ARTICLES_PAGE_SIZE,
+  });
+  return toPage<HelpScoutArticleRef>(data, 'articles', page);
+}
+
+/**
+ * Fetch a single article with its full content. `collection` and `categories` hold
+ * HelpScout IDs; the connector resolves them to names.
+ */
+export async function fetchArticle(apiKey: string, articleId: string, sourceId: string = 'helpscout'): Promise<Article> {
+  const data = await helpscoutGet(apiKey, `/articles/${articleId}`);
+  const article = data.article;
+
+  return {
+    id: article.id,
+    sourceId,
+    name: article.name,
+    text: article.text || '',
+    url: article.publicUrl || '',
+    lastModified: article.updatedAt,
+    collection: article.collectionId,
+    categories: article.categories || [],
+    tags: article.keywords || [],
+    status: article.status,
+    chunks: [],
+  };
+}
+
+interface HelpScoutCursor {
+  collection: number;
+  page: number;
+}
+
+/**
+ * HelpScout Docs connector. Article IDs are HelpScout's own so existing indexes stay valid.
+ */
+export function createHelpScoutSource(config: HelpScoutSourceConfig): KnowledgeSource {
+  const sourceId = config.id || 'helpscout';
+  const apiKey = config.apiKey || process.env.HELPSCOUT_API_KEY;
+  let collections: HelpScoutCollection[] | null = null;
+  const categoryNames = new Map<string, Promise<Map<string, string>>>();
+
+  if (!apiKey) {
+    throw new Error(`HelpScout API key not configured for source ${sourceId}`);
+  }
+
+  const getCollections = async () => {
+    if (!collections) {
+      collections = await listAllCollections(apiKey);
+      console.log(`Found ${collections.length} HelpScout collections for source ${sourceId}`);
+    }
+    return collections;
+  };
+
+  // Category names per collection; falls back to IDs if the listing fails
+  const getCategoryNames = (collectionId: string) => {
+    let names = categoryNames.get(collectionId);
+    if (!names) {
+      names = listCategories(apiKey, collectionId)
+        .then(categories => new Map(categories.map(category => [category.id, category.name] as [string, string])))
+        .catch(error => {
+          console.error(`Error listing categories for collection ${collectionId}:`, error instanceof Error ? error.message : error);
+          categoryNames.delete(collectionId);
+          return new Map<string, string>();
+        });
+      categoryNames.set(collectionId, names);
+    }
+    return names;
+  };
+
+  return {
+    id: sourceId,
+    type: 'helpscout',
+    chunking: config.chunking,
+
+    async listArticles(cursor) {
+      const position: HelpScoutCursor = cursor ? JSON.parse(cursor) : { collection: 0, page: 1 };
+      const all = await getCollections();
+      const collection = all[position.collection];
+
+      if (!collection) {
+        return { items: [], nextCursor: null };
+      }
+
+      const next = (page: number, pages: number): string | null => {
+        if (page < pages) return JSON.stringify({ collection: position.collection, page: page + 1 });
+        if (position.collection + 1 < all.length) return JSON.stringify({ collection: position.collection + 1, page: 1 });
+        return null;
+      };
+
+      try {
+        const page = await listArticles(apiKey, collection.id, position.page);
+        return { items: page.items, nextCursor: next(page.page, page.pages) };
+      } catch (error) {
+        // Move on to the next collection; the error marks this listing as incomplete
+        return {
+          items: [],
+          nextCursor: next(1, 1),
+          errors: [`Error listing collection ${collection.id} page ${position.page}: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        };
+      }
+    },
+
+    async fetchArticle(ref) {
+      const article = await fetchArticle(apiKey, ref.id, sourceId);
+
+      // Filters use readable names rather than HelpScout IDs
+      if (article.collection) {
+        const collectionId = article.collection;
+        const collection = (await getCollections()).find(item => item.id === collectionId);
+        const names = await getCategoryNames(collectionId);
+        article.collection = collection ? collection.name : collectionId;
+        article.categories = (article.categories || []).map(id => names.get(id) || id);
+      }
+      return article;
+    },
+
+    async estimateTotal() {
+      const all = await getCollections();
+      return all.reduce((sum, collection) => sum + (collection.articleCount || 0), 0);
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { Article } from '../articleStore';
+import { createHelpScoutSource } from './helpscout';
+import { createJsonlSource } from './jsonl';
+import { createMarkdownSource } from './markdown';
+import { createSitemapSource } from './sitemap';
+import { KnowledgeSource, KnowledgeSourceConfig, SourcePage } from './types';
+
+export * from './types';
+export { createHelpScoutSource, createJsonlSource, createMarkdownSource, createSitemapSource };
+
+/**
+ * Build a connector from its config
+ */
+export function createKnowledgeSource(config: KnowledgeSourceConfig): KnowledgeSource {
+  switch (config.type) {
+    case 'helpscout':
+      return createHelpScoutSource(config);
+    case 'markdown':
+      return createMarkdownSource(config);
+    case 'sitemap':
+      return createSitemapSource(config);
+    case 'jsonl':
+      return createJsonlSource(config);
+    default: {
+      // Configs are parsed from KNOWLEDGE_SOURCES, so an unknown type can still reach here
+      const unknownConfig: { type: string } = config;
+      throw new Error(`Unknown knowledge source type: ${unknownConfig.type}`);
+    }
+  }
+}
+
+/**
+ * Source configs from KNOWLEDGE_SOURCES (a JSON array), defaulting to HelpScout
+ * when only HELPSCOUT_API_KEY is set
+ */
+export function getKnowledgeSourceConfigs(): KnowledgeSourceConfig[] {
+  if (process.env.KNOWLEDGE_SOURCES) {
+    const configs = JSON.parse(process.env.KNOWLEDGE_SOURCES);
+    if (!Array.isArray(configs)) {
+      throw new Error('KNOWLEDGE_SOURCES must be a JSON array');
+    }
+    return configs;
+  }
+
+  return process.env.HELPSCOUT_API_KEY ? [{ type: 'helpscout' }] : [];
+}
+
+/**
+ * Connectors for every configured knowledge source
+ */
+export function getKnowledgeSources(): KnowledgeSource[] {
+  return getKnowledgeSourceConfigs().map(createKnowledgeSource);
+}
+
+/**
+ * Walk a source's listing and yield its full articles, skipping empty ones
+ */
+export async function* readArticles(source: KnowledgeSource, limit: number = Infinity): AsyncGenerator<Article> {
+  let cursor: string | null = null;
+  let yielded = 0;
+
+  do {
+    const page: SourcePage = await source.listArticles(cursor);
+    (page.errors || []).forEach((error: unknown) => console.error(error));
+
+    for (const ref of page.items) {
+      if (yielded >= limit) return;
+
+      const article = await source.fetchArticle(ref);
+      if (!article || !article.text || article.text.trim().length === 0) {
+        continue;
+      }
+
+      yielded++;
+      yield article;
+    }
+
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+}
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonlSource } from './jsonl';
+
+const FIXTURE = path.join(__dirname, '__fixtures__', 'articles.jsonl');
+
+describe('jsonl source', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  test('maps records to articles, accepting the alternative field names', async () => {
+    const source = createJsonlSource({ type: 'jsonl', id: 'dump', path: FIXTURE });
+
+    expect(await source.fetchArticle({ id: 'dump:1', name: '' })).toEqual({
+      id: 'dump:1',
+      sourceId: 'dump',
+      name: 'Resetting your password',
+      text: 'Open Settings and choose Reset password.',
+      url: 'https://example.com/reset',
+      lastModified: '2024-03-01T10:00:00Z',
+      collection: 'Account',
+      categories: ['Security'],
+      tags: ['password', 'login'],
+      status: 'published',
+      language: 'en',
+      chunks: [],
+    });
+
+    const billing = await source.fetchArticle({ id: 'dump:billing', name: '' });
+    expect(billing).toMatchObject({
+      name: 'Updating billing details',
+      text: 'Billing details live under Plan.',
+      lastModified: '2024-02-01T10:00:00Z',
+      categories: ['Billing'],
+    });
+
+    // The name falls back to the record id
+    expect(await source.fetchArticle({ id: 'dump:3', name: '' })).toMatchObject({ name: '3', url: '', lastModified: '' });
+    expect(await source.fetchArticle({ id: 'dump:missing', name: '' })).toBeNull();
+  });
+
+  test('skips invalid lines and records without an id, reporting their line numbers', async () => {
+    const source = createJsonlSource({ type: 'jsonl', id: 'dump', path: FIXTURE });
+    const page = await source.listArticles(null);
+
+    expect(page.items.map(item => item.id)).toEqual(['dump:1', 'dump:billing', 'dump:3']);
+    expect(page.items[2].updatedAt).toBeUndefined();
+    expect(page.nextCursor).toBeNull();
+    expect(await source.estimateTotal!()).toBe(3);
+    expect(errorSpy).toHaveBeenCalledWith(`Skipping invalid JSON on line 4 of ${FIXTURE}`);
+    expect(errorSpy).toHaveBeenCalledWith(`Skipping record without an id on line 5 of ${FIXTURE}`);
+  });
+
+  test('pages through the dump with offset cursors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jsonl-source-'));
+    const file = path.join(dir, 'large.jsonl');
+    const lines = Array.from({ length: 150 }, (_, i) => JSON.stringify({ id: i, text: `Article ${i}` }));
+    await fs.writeFile(file, lines.join('\n'));
+
+    try {
+      const source = createJsonlSource({ type: 'jsonl', id: 'large', path: file });
+      const first = await source.listArticles(null);
+      expect(first.items).toHaveLength(100);
+      expect(first.nextCursor).toBe('100');
+
+      const second = await source.listArticles(first.nextCursor);
+      expect(second.items).toHaveLength(50);
+      expect(second.items[0].id).toBe('large:100');
+      expect(second.nextCursor).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects when the dump cannot be read', async () => {
+    const source = createJsonlSource({ type: 'jsonl', id: 'dump', path: path.join(__dirname, '__fixtures__', 'missing.jsonl') });
+    await expect(source.listArticles(null)).rejects.toThrow(/ENOENT/);
+  });
+});
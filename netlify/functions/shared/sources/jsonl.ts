@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Article } from '../articleStore';
+import { JsonlSourceConfig, KnowledgeSource } from './types';
+
+const PAGE_SIZE = 100;
+
+function stringList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter(item => typeof item === 'string');
+  return undefined;
+}
+
+/**
+ * JSONL dump connector. Each line is one article:
+ * { "id", "name" | "title", "text" | "body" | "content", "url", "updatedAt" | "lastModified",
+ *   "collection", "categories" | "category", "tags", "status", "language" | "lang" }
+ */
+export function createJsonlSource(config: JsonlSourceConfig): KnowledgeSource {
+  let records: Map<string, Article> | null = null;
+
+  const getRecords = async () => {
+    if (records) return records;
+
+    const raw = await fs.readFile(path.resolve(config.path), 'utf8');
+    const loaded = new Map<string, Article>();
+
+    raw.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let record;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        console.error(`Skipping invalid JSON on line ${index + 1} of ${config.path}`);
+        return;
+      }
+
+      if (record.id === undefined || record.id === null) {
+        console.error(`Skipping record without an id on line ${index + 1} of ${config.path}`);
+        return;
+      }
+
+      const id = `${config.id}:${record.id}`;
+      loaded.set(id, {
+        id,
+        sourceId: config.id,
+        name: record.name || record.title || String(record.id),
+        text: record.text || record.body || record.content || '',
+        url: record.url || '',
+        lastModified: record.updatedAt || record.lastModified || '',
+        collection: typeof record.collection === 'string' ? record.collection : undefined,
+        categories: stringList(record.categories || record.category),
+        tags: stringList(record.tags),
+        status: typeof record.status === 'string' ? record.status : undefined,
+        language: typeof (record.language || record.lang) === 'string' ? record.language || record.lang : undefined,
+        chunks: [],
+      });
+    });
+
+    records = loaded;
+    return records;
+  };
+
+  return {
+    id: config.id,
+    type: 'jsonl',
+    chunking: config.chunking,
+
+    async listArticles(cursor) {
+      const offset = cursor ? Number(cursor) : 0;
+      const all = Array.from((await getRecords()).values());
+      const items = all.slice(offset, offset + PAGE_SIZE).map(article => ({
+        id: article.id,
+        name: article.name,
+        // Without a timestamp the content hash decides whether the record changed
+        updatedAt: article.lastModified || undefined,
+      }));
+
+      const nextOffset = offset + PAGE_SIZE;
+      return { items, nextCursor: nextOffset < all.length ? String(nextOffset) : null };
+    },
+
+    async fetchArticle(ref) {
+      const article = (await getRecords()).get(ref.id);
+      return article ? { ...article, chunks: [] } : null;
+    },
+
+    async estimateTotal() {
+      return (await getRecords()).size;
+    },
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMarkdownSource } from './markdown';
+
+const FIXTURE_DIR = path.join(__dirname, '__fixtures__', 'markdown');
+
+describe('markdown source', () => {
+  test('lists files sorted by path with slug ids', async () => {
+    const source = createMarkdownSource({ type: 'markdown', id: 'docs', path: FIXTURE_DIR });
+    const page = await source.listArticles(null);
+
+    expect(page.items.map(item => [item.id, item.name])).toEqual([
+      ['docs:getting-started', 'getting-started.md'],
+      ['docs:guides/draft', path.join('guides', 'draft.md')],
+      ['docs:guides', path.join('guides', 'index.mdx')],
+    ]);
+    page.items.forEach(item => expect(item.updatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/));
+    expect(page.nextCursor).toBeNull();
+    expect(await source.estimateTotal!()).toBe(3);
+  });
+
+  test('maps frontmatter to article fields', async () => {
+    const source = createMarkdownSource({ type: 'markdown', id: 'docs', path: FIXTURE_DIR, baseUrl: 'https://example.com/docs/' });
+    const article = await source.fetchArticle({ id: 'docs:getting-started', name: 'getting-started.md' });
+
+    expect(article).toMatchObject({
+      id: 'docs:getting-started',
+      sourceId: 'docs',
+      name: 'Getting started',
+      text: '# Welcome\n\nInstall the app and sign in.',
+      url: 'https://example.com/docs/getting-started',
+      collection: undefined,
+      categories: ['Basics'],
+      tags: ['setup', 'onboarding'],
+      status: 'published',
+      chunks: [],
+    });
+  });
+
+  test('strips MDX syntax and uses the first heading and folder when there is no frontmatter', async () => {
+    const source = createMarkdownSource({ type: 'markdown', id: 'docs', path: FIXTURE_DIR });
+    const article = await source.fetchArticle({ id: 'docs:guides', name: '' });
+
+    expect(article).toMatchObject({
+      name: 'Guides overview',
+      text: '# Guides overview\n\n\nPick a guide from the list.',
+      url: '',
+      collection: 'guides',
+    });
+  });
+
+  test('honours draft, url and collection frontmatter', async () => {
+    const source = createMarkdownSource({ type: 'markdown', id: 'docs', path: FIXTURE_DIR, baseUrl: 'https://example.com/docs' });
+    const article = await source.fetchArticle({ id: 'docs:guides/draft', name: '' });
+
+    expect(article).toMatchObject({
+      name: 'draft',
+      url: 'https://example.com/custom',
+      collection: 'Internal',
+      status: 'draft',
+    });
+    expect(await source.fetchArticle({ id: 'docs:unknown', name: '' })).toBeNull();
+  });
+
+  test('pages through large folders with offset cursors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-source-'));
+    await Promise.all(Array.from({ length: 120 }, (_, i) =>
+      fs.writeFile(path.join(dir, `note-${String(i).padStart(3, '0')}.md`), `Note ${i}`)));
+
+    try {
+      const source = createMarkdownSource({ type: 'markdown', id: 'notes', path: dir });
+      const first = await source.listArticles(null);
+      expect(first.items).toHaveLength(100);
+      expect(first.nextCursor).toBe('100');
+
+      const second = await source.listArticles(first.nextCursor);
+      expect(second.items.map(item => item.id)).toEqual(
+        Array.from({ length: 20 }, (_, i) => `notes:note-${String(100 + i).padStart(3, '0')}`));
+      expect(second.nextCursor).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects when the folder does not exist', async () => {
+    const source = createMarkdownSource({ type: 'markdown', id: 'docs', path: path.join(FIXTURE_DIR, 'missing') });
+    await expect(source.listArticles(null)).rejects.toThrow(/ENOENT/);
+  });
+});
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeSource, MarkdownSourceConfig } from './types';
+
+const PAGE_SIZE = 100;
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx'];
+
+interface ParsedMarkdown {
+  frontmatter: Record<string, string>;
+  body: string;
+}
+
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdownFiles(entryPath)));
+    } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// Only simple `key: value` frontmatter is supported, which covers title/url/date fields
+// and comma-separated or `[a, b]` lists
+function parseMarkdown(raw: string): ParsedMarkdown {
+  const frontmatter: Record<string, string> = {};
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+
+  if (!match) {
+    return { frontmatter, body: raw };
+  }
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (field) {
+      frontmatter[field[1]] = field[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return { frontmatter, body: raw.slice(match[0].length) };
+}
+
+// Drop MDX module syntax and JSX tags so only the prose gets indexed
+function stripMdx(body: string): string {
+  return body
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/<\/?[A-Z][\w.]*[^>]*>/g, '')
+    .trim();
+}
+
+function toList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const items = value.replace(/^\[|\]$/g, '').split(',')
+    .map(item => item.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function toSlug(relativePath: string): string {
+  return relativePath.replace(/\\/g, '/').replace(/\.(md|mdx)$/i, '').replace(/(^|\/)index$/, '');
+}
+
+/**
+ * Local Markdown/MDX folder connector (release notes, runbooks, ...)
+ */
+export function createMarkdownSource(config: MarkdownSourceConfig): KnowledgeSource {
+  const root = path.resolve(config.path);
+  let files: string[] | null = null;
+
+  const getFiles = async () => {
+    if (!files) {
+      files = (await findMarkdownFiles(root)).map(file => path.relative(root, file)).sort();
+    }
+    return files;
+  };
+
+  return {
+    id: config.id,
+    type: 'markdown',
+    chunking: config.chunking,
+
+    async listArticles(cursor) {
+      const offset = cursor ? Number(cursor) : 0;
+      const all = await getFiles();
+      const items = [];
+
+      for (const relativePath of all.slice(offset, offset + PAGE_SIZE)) {
+        const stat = await fs.stat(path.join(root, relativePath));
+        items.push({
+          id: `${config.id}:${toSlug(relativePath)}`,
+          name: relativePath,
+          updatedAt: stat.mtime.toISOString(),
+        });
+      }
+
+      const nextOffset = offset + PAGE_SIZE;
+      return { items, nextCursor: nextOffset < all.length ? String(nextOffset) : null };
+    },
+
+    async fetchArticle(ref) {
+      const all = await getFiles();
+      const relativePath = all.find(file => `${config.id}:${toSlug(file)}` === ref.id);
+      if (!relativePath) return null;
+
+      const filePath = path.join(root, relativePath);
+      const [raw, stat] = await Promise.all([fs.readFile(filePath, 'utf8'), fs.stat(filePath)]);
+      const { frontmatter, body } = parseMarkdown(raw);
+      const text = path.extname(filePath).toLowerCase() === '.mdx' ? stripMdx(body) : body.trim();
+      const heading = text.match(/^#\s+(.+)$/m);
+      const slug = toSlug(relativePath);
+      const folder = path.dirname(relativePath).split(path.sep)[0];
+
+      return {
+        id: ref.id,
+        sourceId: config.id,
+        name: frontmatter.title || (heading ? heading[1].trim() : path.basename(slug || relativePath)),
+        text,
+        url: frontmatter.url || (config.baseUrl ? `${config.baseUrl.replace(/\/$/, '')}/${slug}` : ''),
+        lastModified: stat.mtime.toISOString(),
+        // Top-level folders act as collections unless the frontmatter names one
+        collection: frontmatter.collection || (folder !== '.' ? folder : undefined),
+        categories: toList(frontmatter.categories || frontmatter.category),
+        tags: toList(frontmatter.tags),
+        status: frontmatter.status || (frontmatter.draft === 'true' ? 'draft' : 'published'),
+        language: frontmatter.language || frontmatter.lang,
+        chunks: [],
+      };
+    },
+
+    async estimateTotal() {
+      return (await getFiles()).length;
+    },
+  };
+}
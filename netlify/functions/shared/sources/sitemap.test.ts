@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createSitemapSource } from './sitemap';
+
+jest.mock('axios', () => ({ get: jest.fn() }));
+
+const mockedGet = axios.get as jest.Mock;
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '__fixtures__', 'sitemap', name), 'utf8');
+}
+
+// Serves the given bodies by URL and fails like axios for anything else
+function serve(pages: Record<string, string>): void {
+  mockedGet.mockImplementation(async (url: string) => {
+    if (pages[url] === undefined) {
+      throw new Error('Request failed with status code 404');
+    }
+    return { data: pages[url] };
+  });
+}
+
+describe('sitemap source', () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  test('follows sitemap indexes and filters pages by URL prefix', async () => {
+    serve({
+      'https://example.com/sitemap.xml': fixture('sitemap-index.xml'),
+      'https://example.com/sitemap-docs.xml': fixture('sitemap-docs.xml'),
+    });
+    const source = createSitemapSource({ type: 'sitemap', id: 'site', url: 'https://example.com/sitemap.xml', urlPrefix: 'https://example.com/docs/' });
+    const page = await source.listArticles(null);
+
+    expect(page.items).toEqual([
+      { id: 'site:https://example.com/docs/install', name: 'https://example.com/docs/install', updatedAt: '2024-01-15' },
+      { id: 'site:https://example.com/docs/faq?a=1&b=2', name: 'https://example.com/docs/faq?a=1&b=2', updatedAt: undefined },
+    ]);
+    expect(page.nextCursor).toBeNull();
+    expect(await source.estimateTotal!()).toBe(2);
+    // The sitemap is read once per connector
+    expect(mockedGet).toHaveBeenCalledTimes(2);
+  });
+
+  test('maps a page to an article with its main content', async () => {
+    serve({ 'https://example.com/docs/install': fixture('install.html') });
+    const source = createSitemapSource({ type: 'sitemap', id: 'site', url: 'https://example.com/sitemap.xml' });
+    const article = await source.fetchArticle({
+      id: 'site:https://example.com/docs/install',
+      name: 'https://example.com/docs/install',
+      updatedAt: '2024-01-15',
+    });
+
+    expect(article).toEqual({
+      id: 'site:https://example.com/docs/install',
+      sourceId: 'site',
+      name: 'Installing & updating',
+      text: '<h1>Install</h1>\n    \n    \n    <p>Download the installer and run it.</p>',
+      url: 'https://example.com/docs/install',
+      lastModified: '2024-01-15',
+      chunks: [],
+    });
+  });
+
+  test('pages through long sitemaps with offset cursors', async () => {
+    const urls = Array.from({ length: 70 }, (_, i) => `<url><loc>https://example.com/p/${i}</loc></url>`);
+    serve({ 'https://example.com/sitemap.xml': `<urlset>${urls.join('')}</urlset>` });
+    const source = createSitemapSource({ type: 'sitemap', id: 'site', url: 'https://example.com/sitemap.xml' });
+
+    const first = await source.listArticles(null);
+    expect(first.items).toHaveLength(50);
+    expect(first.nextCursor).toBe('50');
+
+    const second = await source.listArticles(first.nextCursor);
+    expect(second.items.map(item => item.name)).toEqual(Array.from({ length: 20 }, (_, i) => `https://example.com/p/${50 + i}`));
+    expect(second.nextCursor).toBeNull();
+  });
+
+  test('rejects when the sitemap or a page cannot be fetched', async () => {
+    serve({});
+    const source = createSitemapSource({ type: 'sitemap', id: 'site', url: 'https://example.com/sitemap.xml' });
+
+    await expect(source.listArticles(null)).rejects.toThrow('Request failed with status code 404');
+    await expect(source.fetchArticle({ id: 'site:https://example.com/gone', name: '' })).rejects.toThrow('status code 404');
+  });
+});
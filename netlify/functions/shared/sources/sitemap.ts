@@ -0,0 +1,127 @@
+import axios from 'axios';
+import { KnowledgeSource, SitemapSourceConfig } from './types';
+
+const PAGE_SIZE = 50;
+const MAX_NESTED_SITEMAPS = 50;
+
+interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await axios.get(url, { responseType: 'text', transformResponse: data => data });
+  return response.data;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Follows <sitemapindex> files one level at a time, up to MAX_NESTED_SITEMAPS files in total
+async function readSitemap(url: string): Promise<SitemapEntry[]> {
+  const queue = [url];
+  const entries: SitemapEntry[] = [];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_NESTED_SITEMAPS) {
+    const xml = await fetchText(queue.shift()!);
+    visited++;
+
+    for (const block of xml.match(/<sitemap>[\s\S]*?<\/sitemap>/gi) || []) {
+      const loc = readTag(block, 'loc');
+      if (loc) queue.push(loc);
+    }
+
+    for (const block of xml.match(/<url>[\s\S]*?<\/url>/gi) || []) {
+      const loc = readTag(block, 'loc');
+      if (loc) entries.push({ loc, lastmod: readTag(block, 'lastmod') });
+    }
+  }
+
+  return entries;
+}
+
+// Keep the page's main content as HTML; the chunker deals with markup
+function extractContent(html: string): { title: string; body: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const cleaned = html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+  const main = cleaned.match(/<main[^>]*>([\s\S]*?)<\/main>/i)
+    || cleaned.match(/<article[^>]*>([\s\S]*?)<\/article>/i)
+    || cleaned.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+
+  return {
+    title: titleMatch ? decodeXml(titleMatch[1]) : '',
+    body: (main ? main[1] : cleaned).trim(),
+  };
+}
+
+/**
+ * Crawls the pages listed in a sitemap.xml (including sitemap indexes)
+ */
+export function createSitemapSource(config: SitemapSourceConfig): KnowledgeSource {
+  let entries: SitemapEntry[] | null = null;
+
+  const getEntries = async () => {
+    if (!entries) {
+      const all = await readSitemap(config.url);
+      entries = config.urlPrefix ? all.filter(entry => entry.loc.startsWith(config.urlPrefix!)) : all;
+      console.log(`Found ${entries.length} pages in sitemap ${config.url}`);
+    }
+    return entries;
+  };
+
+  return {
+    id: config.id,
+    type: 'sitemap',
+    chunking: config.chunking,
+
+    async listArticles(cursor) {
+      const offset = cursor ? Number(cursor) : 0;
+      const all = await getEntries();
+      const items = all.slice(offset, offset + PAGE_SIZE).map(entry => ({
+        id: `${config.id}:${entry.loc}`,
+        name: entry.loc,
+        updatedAt: entry.lastmod,
+      }));
+
+      const nextOffset = offset + PAGE_SIZE;
+      return { items, nextCursor: nextOffset < all.length ? String(nextOffset) : null };
+    },
+
+    async fetchArticle(ref) {
+      const url = ref.id.slice(config.id.length + 1);
+      const { title, body } = extractContent(await fetchText(url));
+
+      return {
+        id: ref.id,
+        sourceId: config.id,
+        name: title || url,
+        text: body,
+        url,
+        // Pages without <lastmod> fall back to the content hash for change detection
+        lastModified: ref.updatedAt || '',
+        chunks: [],
+      };
+    },
+
+    async estimateTotal() {
+      return (await getEntries()).length;
+    },
+  };
+}
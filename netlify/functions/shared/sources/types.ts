@@ -0,0 +1,75 @@
+import { Article } from '../articleStore';
+import { ChunkOptions } from '../chunking';
+
+/**
+ * Lightweight listing entry; enough to decide whether the full article needs fetching
+ */
+export interface SourceArticleRef {
+  id: string;
+  name: string;
+  updatedAt?: string;
+}
+
+/**
+ * One page of a source's article listing. `cursor` is opaque to callers and is
+ * passed back as-is to fetch the next page; null means the listing is finished.
+ */
+export interface SourcePage {
+  items: SourceArticleRef[];
+  nextCursor: string | null;
+  // Listing problems that mean some articles may have been missed on this page
+  errors?: string[];
+}
+
+/**
+ * A connector that yields Article records from one knowledge source
+ */
+export interface KnowledgeSource {
+  id: string;
+  type: string;
+  chunking?: SourceChunkingConfig;
+  listArticles(cursor: string | null): Promise<SourcePage>;
+  fetchArticle(ref: SourceArticleRef): Promise<Article | null>;
+  estimateTotal?(): Promise<number>;
+}
+
+/**
+ * Per-source chunking settings; sizes are in tokens of the embedding model
+ */
+export type SourceChunkingConfig = Pick<ChunkOptions, 'maxTokens' | 'overlapTokens' | 'minChunkTokens' | 'maxChunksPerArticle'>;
+
+export interface HelpScoutSourceConfig {
+  type: 'helpscout';
+  id?: string;
+  apiKey?: string;
+  chunking?: SourceChunkingConfig;
+}
+
+export interface MarkdownSourceConfig {
+  type: 'markdown';
+  id: string;
+  path: string;
+  baseUrl?: string;
+  chunking?: SourceChunkingConfig;
+}
+
+export interface SitemapSourceConfig {
+  type: 'sitemap';
+  id: string;
+  url: string;
+  urlPrefix?: string;
+  chunking?: SourceChunkingConfig;
+}
+
+export interface JsonlSourceConfig {
+  type: 'jsonl';
+  id: string;
+  path: string;
+  chunking?: SourceChunkingConfig;
+}
+
+export type KnowledgeSourceConfig =
+  | HelpScoutSourceConfig
+  | MarkdownSourceConfig
+  | SitemapSourceConfig
+  | JsonlSourceConfig;
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { connectLambda, getStore } from '@netlify/blobs';
+import { HandlerEvent } from '@netlify/functions';
+
+/**
+ * Minimal key/value interface the article index is persisted through.
+ * Keys are slash-separated paths (e.g. "index/current.json").
+ */
+export interface StorageBackend {
+  name: string;
+  getJSON<T>(key: string): Promise<T | null>;
+  setJSON(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+}
+
+type LambdaEvent = Parameters<typeof connectLambda>[0];
+
+const BLOB_STORE_NAME = 'helpscout-articles';
+const DEFAULT_LOCAL_DIR = path.join(process.cwd(), '.netlify', 'kb-store');
+
+/**
+ * Netlify Blobs backend used in production deploys
+ */
+export function createBlobBackend(storeName: string = BLOB_STORE_NAME): StorageBackend {
+  // Resolved per call so each invocation picks up the context from connectStorage().
+  // Strong consistency so a freshly written snapshot is visible to the next cold start.
+  const store = () => getStore({ name: storeName, consistency: 'strong' });
+
+  return {
+    name: 'blobs',
+    async getJSON<T>(key: string): Promise<T | null> {
+      const value = await store().get(key, { type: 'json' });
+      return value === null || value === undefined ? null : (value as T);
+    },
+    async setJSON(key: string, value: unknown): Promise<void> {
+      await store().setJSON(key, value);
+    },
+    async delete(key: string): Promise<void> {
+      await store().delete(key);
+    },
+    async list(prefix: string): Promise<string[]> {
+      const { blobs } = await store().list({ prefix });
+      return blobs.map(blob => blob.key);
+    },
+  };
+}
+
+// Missing files read as absent keys rather than errors
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
+
+/**
+ * Local filesystem backend used by `netlify dev` and tests
+ */
+export function createFileBackend(rootDir: string = DEFAULT_LOCAL_DIR): StorageBackend {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const walk = async (dir: string): Promise<string[]> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await walk(entryPath)));
+      } else if (!entry.name.endsWith('.tmp')) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  };
+
+  return {
+    name: 'filesystem',
+    async getJSON<T>(key: string): Promise<T | null> {
+      try {
+        const raw = await fs.readFile(resolveKey(key), 'utf8');
+        return JSON.parse(raw) as T;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+    async setJSON(key: string, value: unknown): Promise<void> {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temp file and rename so readers never see a partial file
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+      await fs.rename(tempPath, filePath);
+    },
+    async delete(key: string): Promise<void> {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+    async list(prefix: string): Promise<string[]> {
+      const root = path.resolve(rootDir);
+      const files = await walk(root);
+      return files
+        .map(file => path.relative(root, file).split(path.sep).join('/'))
+        .filter(key => key.startsWith(prefix))
+        .sort();
+    },
+  };
+}
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Pick the storage backend for the current environment.
+ * KB_STORAGE_BACKEND ("blobs" | "filesystem") overrides the automatic choice.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (backend) return backend;
+
+  const requested = process.env.KB_STORAGE_BACKEND;
+  const hasBlobsContext = Boolean(process.env.NETLIFY_BLOBS_CONTEXT || globalThis.netlifyBlobsContext);
+  const useBlobs = requested
+    ? requested === 'blobs'
+    : hasBlobsContext && process.env.NETLIFY_DEV !== 'true';
+
+  backend = useBlobs ? createBlobBackend() : createFileBackend(process.env.KB_STORAGE_DIR || DEFAULT_LOCAL_DIR);
+  console.log(`🗄️ Using ${backend.name} storage backend`);
+  return backend;
+}
+
+/**
+ * Override the storage backend (useful for testing)
+ */
+export function setStorageBackend(next: StorageBackend | null): void {
+  backend = next;
+}
+
+/**
+ * Wire up Netlify Blobs for Lambda-compatible handlers.
+ * Must be called at the top of each handler before touching storage.
+ */
+export function connectStorage(event: HandlerEvent): void {
+  const { blobs } = event as HandlerEvent & { blobs?: string };
+  if (blobs) {
+    const headers: LambdaEvent['headers'] = {};
+    Object.entries(event.headers).forEach(([name, value]) => {
+      if (value !== undefined) headers[name] = value;
+    });
+    connectLambda({ blobs, headers });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Tenant isolation tests: each tenant's articles, index snapshots, ingest jobs and
+ * assistant profiles must stay invisible to every other tenant.
+ *
+ * Runs against the local embedding provider and a throwaway filesystem store. The
+ * tests share that store and run in order.
+ *
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  getAllArticles,
+  getArticle,
+  getStorageStats,
+  removeArticle,
+  searchArticles,
+  searchChunks,
+  storeArticle,
+} from './articleStore';
+import { createEmbeddingProvider, setEmbeddingProvider } from './embeddings';
+import { createJob, getCurrentJob, runJob } from './ingestJob';
+import { getAssistantProfile, setAssistantProfiles } from './profiles';
+import { getStorageBackend } from './storage';
+import { DEFAULT_TENANT_ID, getTenants, parseTenant, setTenants, tenantStorageKey } from './tenants';
+import { createTempStore, quietLogs, TempStore, testArticle } from './testing';
+
+let store: TempStore;
+let previousTenants: string | undefined;
+
+beforeAll(async () => {
+  quietLogs();
+  previousTenants = process.env.TENANTS;
+
+  store = await createTempStore('tenants');
+  // Outside the store's keys, next to them in the same directory
+  const jsonlPath = path.join(store.rootDir, 'globex.jsonl');
+  await fs.writeFile(jsonlPath, [
+    { id: 'g1', title: 'Exporting invoices', text: 'Globex invoices can be exported to CSV from the billing page.' },
+    { id: 'g2', title: 'Resetting passwords', text: 'Globex administrators reset passwords from the user directory.' },
+  ].map(record => JSON.stringify(record)).join('\n'));
+
+  process.env.TENANTS = JSON.stringify({
+    acme: {
+      name: 'Acme',
+      sources: [],
+      profiles: { default: { brandName: 'Acme Widgets' }, agents: { temperature: 0 } },
+      defaultProfile: 'agents',
+    },
+    globex: {
+      sources: [{ type: 'jsonl', id: 'globex-docs', path: jsonlPath }],
+      profiles: { default: { brandName: 'Globex' } },
+    },
+  });
+  setTenants(null);
+  setAssistantProfiles(null);
+  setEmbeddingProvider(createEmbeddingProvider({ type: 'local' }));
+});
+
+afterAll(async () => {
+  process.env.TENANTS = previousTenants;
+  setTenants(null);
+  jest.restoreAllMocks();
+  await store.remove();
+});
+
+test('articles stored for one tenant are only searchable in that tenant', async () => {
+  await storeArticle(testArticle('a1', 'Configuring rockets', 'Acme rockets are configured from the launch console before each flight.'), { tenant: 'acme' });
+
+  const acmeHits = await searchArticles('configure rockets launch console', 5, { tenant: 'acme' });
+  // acme finds its own article
+  expect(acmeHits.some(chunk => chunk.articleId === 'a1')).toBe(true);
+
+  const globexResults = await searchChunks('configure rockets launch console', 5, { tenant: 'globex' });
+  // globex never sees acme chunks
+  expect(globexResults.every(result => result.chunk.articleId !== 'a1')).toBe(true);
+  expect(getArticle('a1', 'globex')).toBeUndefined();
+  expect(getArticle('a1', DEFAULT_TENANT_ID)).toBeUndefined();
+});
+
+test('the same article id can hold different content in different tenants', async () => {
+  await storeArticle(testArticle('shared', 'Billing', 'Acme bills monthly by credit card.'), { tenant: 'acme' });
+  await storeArticle(testArticle('shared', 'Billing', 'Globex bills yearly by bank transfer.'), { tenant: 'globex' });
+
+  expect(getArticle('shared', 'acme')!.text).toContain('monthly');
+  expect(getArticle('shared', 'globex')!.text).toContain('yearly');
+
+  const acmeHits = await searchArticles('billing bank transfer yearly', 5, { tenant: 'acme' });
+  // acme search returns only acme text
+  expect(acmeHits.every(chunk => !chunk.text.includes('Globex'))).toBe(true);
+
+  // Removing from one tenant leaves the other's copy alone
+  expect(await removeArticle('shared', { tenant: 'acme' })).toBe(true);
+  expect(getArticle('shared', 'acme')).toBeUndefined();
+  expect(getArticle('shared', 'globex')).toBeDefined();
+});
+
+test('storage stats are reported per tenant', async () => {
+  const acme = getStorageStats('acme');
+  const globex = getStorageStats('globex');
+  expect(acme.tenant).toBe('acme');
+  expect(acme.totalArticles).toBe(getAllArticles('acme').length);
+  expect(globex.totalArticles).toBe(getAllArticles('globex').length);
+  // The default tenant is untouched
+  expect(getStorageStats().totalArticles).toBe(0);
+});
+
+test('each tenant persists under its own storage prefix', async () => {
+  const keys = await getStorageBackend().list('');
+  const indexKeys = keys.filter(key => key.includes('helpscout-articles/'));
+  expect(indexKeys.some(key => key.startsWith('tenants/acme/helpscout-articles/'))).toBe(true);
+  expect(indexKeys.some(key => key.startsWith('tenants/globex/helpscout-articles/'))).toBe(true);
+  // Nothing is written to the default tenant index
+  expect(indexKeys.every(key => key.startsWith('tenants/'))).toBe(true);
+  expect(tenantStorageKey(DEFAULT_TENANT_ID, 'ingest-jobs/current.json')).toBe('ingest-jobs/current.json');
+});
+
+test('ingest jobs read only their tenant\'s sources and write only their tenant\'s index', async () => {
+  const job = await createJob({ tenant: 'globex' });
+  expect(job.tenant).toBe('globex');
+  expect(await getCurrentJob('acme')).toBeNull();
+  expect(await getCurrentJob()).toBeNull();
+
+  const finished = await runJob(job, Date.now() + 60 * 1000);
+  expect(finished.status).toBe('completed');
+  expect(getArticle('globex-docs:g1', 'globex')).toBeDefined();
+  expect(getArticle('globex-docs:g1', 'acme')).toBeUndefined();
+  // Deleted-article cleanup only looks at the job's own tenant
+  expect(getArticle('a1', 'acme')).toBeDefined();
+
+  await expect(createJob({ tenant: 'acme' })).rejects.toThrow(/No knowledge sources configured/);
+});
+
+test('assistant settings come from the tenant', async () => {
+  expect(getAssistantProfile(undefined, 'acme')!.name).toBe('agents');
+  expect(getAssistantProfile(undefined, 'acme')!.brandName).toBe('Acme Widgets');
+  expect(getAssistantProfile(undefined, 'acme')!.temperature).toBe(0);
+  expect(getAssistantProfile(undefined, 'globex')!.brandName).toBe('Globex');
+  // acme's profiles are not visible to globex
+  expect(getAssistantProfile('agents', 'globex')).toBeUndefined();
+  expect(getAssistantProfile()!.brandName).not.toBe('Acme Widgets');
+});
+
+test('unknown tenants are rejected rather than falling back to another index', async () => {
+  // The error doesn't give away which tenants exist
+  expect(parseTenant('initech')).toBe('Unknown tenant');
+  expect(parseTenant({ id: 'acme' })).toBe('Unknown tenant');
+  expect((parseTenant(undefined) as { id: string }).id).toBe(DEFAULT_TENANT_ID);
+  await expect(searchChunks('rockets', 5, { tenant: 'initech' })).rejects.toThrow(/Unknown tenant/);
+  await expect(storeArticle(testArticle('x', 'X', 'Some text.'), { tenant: 'initech' })).rejects.toThrow(/Unknown tenant/);
+  expect(() => getStorageStats('initech')).toThrow(/Unknown tenant/);
+});
+
+test('tenant configs that could reach another tenant\'s data are refused', async () => {
+  const previous = process.env.TENANTS;
+  try {
+    process.env.TENANTS = JSON.stringify({ '../acme': { sources: [] } });
+    setTenants(null);
+    expect(() => getTenants()).toThrow(/Invalid tenant id/);
+
+    // Without its own key a HelpScout source would read the default tenant's site
+    process.env.TENANTS = JSON.stringify({ initech: { sources: [{ type: 'helpscout' }] } });
+    setTenants(null);
+    expect(() => getTenants()).toThrow(/need their own apiKey/);
+
+    process.env.TENANTS = JSON.stringify({ initech: { name: 42, sources: [] } });
+    setTenants(null);
+    expect(() => getTenants()).toThrow(/name must be a string/);
+
+    process.env.TENANTS = JSON.stringify({ initech: { sources: ['helpscout'] } });
+    setTenants(null);
+    expect(() => getTenants()).toThrow(/source 0 must be an object/);
+
+    process.env.TENANTS = JSON.stringify({ initech: { sources: [{ type: 'helpscout', apiKey: 123 }] } });
+    setTenants(null);
+    expect(() => getTenants()).toThrow(/apiKey must be a string/);
+  } finally {
+    process.env.TENANTS = previous;
+    setTenants(null);
+  }
+});
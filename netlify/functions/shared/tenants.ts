@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { createKnowledgeSource, getKnowledgeSourceConfigs, KnowledgeSource, KnowledgeSourceConfig } from './sources';
+
+/**
+ * One knowledge base served by the deployment (e.g. one client's Docs site), with its
+ * own sources, index and assistant settings
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  sources: KnowledgeSourceConfig[];
+  // Assistant profile settings by profile name, layered over the deployment's profiles
+  profiles: Record<string, unknown>;
+  // Profile used when a request doesn't name one
+  defaultProfile?: string;
+}
+
+// The tenant configured by the plain env vars (HELPSCOUT_API_KEY, KNOWLEDGE_SOURCES);
+// its data keeps the storage keys used before tenants existed
+export const DEFAULT_TENANT_ID = 'default';
+
+// Tenant ids become part of storage keys
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+const TENANT_FIELDS = ['name', 'sources', 'profiles', 'defaultProfile'];
+
+let tenants: Map<string, Tenant> | null = null;
+
+function validateTenant(id: string, config: unknown): Tenant {
+  if (!TENANT_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid tenant id ${id}: use lowercase letters, digits, "-" and "_"`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Tenant ${id} must be an object`);
+  }
+
+  const raw = config as Record<string, unknown>;
+  const unknown = Object.keys(raw).filter(key => !TENANT_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Tenant ${id}: unknown field ${unknown[0]}`);
+  }
+  const { name, defaultProfile, profiles } = raw;
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error(`Tenant ${id}: name must be a string`);
+  }
+  if (defaultProfile !== undefined && typeof defaultProfile !== 'string') {
+    throw new Error(`Tenant ${id}: defaultProfile must be a string`);
+  }
+  if (profiles !== undefined && (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles))) {
+    throw new Error(`Tenant ${id}: profiles must be an object of profiles by name`);
+  }
+
+  let sources: KnowledgeSourceConfig[];
+  if (raw.sources === undefined && id === DEFAULT_TENANT_ID) {
+    sources = getKnowledgeSourceConfigs();
+  } else if (!Array.isArray(raw.sources)) {
+    throw new Error(`Tenant ${id}: sources must be an array`);
+  } else {
+    // Each connector checks the rest of its own config when it's created
+    raw.sources.forEach((source: unknown, i) => {
+      if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+        throw new Error(`Tenant ${id}: source ${i} must be an object`);
+      }
+      const fields = source as Record<string, unknown>;
+      if (typeof fields.type !== 'string' || (fields.apiKey !== undefined && typeof fields.apiKey !== 'string')) {
+        throw new Error(`Tenant ${id}: source ${i} needs a string type, and apiKey must be a string`);
+      }
+    });
+    sources = raw.sources as KnowledgeSourceConfig[];
+  }
+
+  // The HelpScout connector falls back to HELPSCOUT_API_KEY, which belongs to the default tenant
+  if (id !== DEFAULT_TENANT_ID && sources.some(source => source.type === 'helpscout' && !source.apiKey)) {
+    throw new Error(`Tenant ${id}: helpscout sources need their own apiKey`);
+  }
+
+  return {
+    id,
+    name: name || id,
+    sources,
+    profiles: (profiles as Record<string, unknown> | undefined) || {},
+    defaultProfile,
+  };
+}
+
+// Tenant configs from TENANTS_FILE (default config/tenants.json) and TENANTS (JSON),
+// the latter winning for ids in both
+function readTenantConfigs(): Record<string, unknown> {
+  const configs: Record<string, unknown> = {};
+
+  const file = path.resolve(process.env.TENANTS_FILE || 'config/tenants.json');
+  if (fs.existsSync(file)) {
+    Object.assign(configs, JSON.parse(fs.readFileSync(file, 'utf8')));
+    console.log(`🏢 Loaded tenants from ${file}`);
+  } else if (process.env.TENANTS_FILE) {
+    throw new Error(`Tenants file not found: ${file}`);
+  }
+
+  if (process.env.TENANTS) {
+    const inline = JSON.parse(process.env.TENANTS);
+    if (typeof inline !== 'object' || inline === null || Array.isArray(inline)) {
+      throw new Error('TENANTS must be a JSON object of tenants by id');
+    }
+    Object.assign(configs, inline);
+  }
+  return configs;
+}
+
+/**
+ * Every configured tenant by id, always including "default"
+ */
+export function getTenants(): Map<string, Tenant> {
+  if (!tenants) {
+    const configs = readTenantConfigs();
+    const loaded = new Map<string, Tenant>();
+    loaded.set(DEFAULT_TENANT_ID, validateTenant(DEFAULT_TENANT_ID, configs[DEFAULT_TENANT_ID] || {}));
+    Object.keys(configs)
+      .filter(id => id !== DEFAULT_TENANT_ID)
+      .forEach(id => loaded.set(id, validateTenant(id, configs[id])));
+    tenants = loaded;
+  }
+  return tenants;
+}
+
+/**
+ * A tenant by id, or the default tenant when no id is given; undefined if it doesn't exist
+ */
+export function getTenant(id?: string): Tenant | undefined {
+  return getTenants().get(id || DEFAULT_TENANT_ID);
+}
+
+/**
+ * A tenant by id, throwing for ids that aren't configured
+ */
+export function requireTenant(id?: string): Tenant {
+  const tenant = getTenant(id);
+  if (!tenant) {
+    throw new Error(`Unknown tenant: ${id}`);
+  }
+  return tenant;
+}
+
+/**
+ * Override the loaded tenants (useful for testing); null re-reads the config
+ */
+export function setTenants(next: Map<string, Tenant> | null): void {
+  tenants = next;
+}
+
+/**
+ * Look up the tenant named in a request, defaulting when none is given; returns an
+ * error message if it's not a known tenant. The message never lists the configured
+ * tenants, which only go to the server log.
+ */
+export function parseTenant(input: unknown): Tenant | string {
+  if (input === undefined || input === null || input === '') return requireTenant(DEFAULT_TENANT_ID);
+  const tenant = typeof input === 'string' ? getTenant(input) : undefined;
+  if (!tenant) {
+    console.warn(`🏢 Unknown tenant ${JSON.stringify(input)} requested; configured tenants: ${Array.from(getTenants().keys()).join(', ')}`);
+    return 'Unknown tenant';
+  }
+  return tenant;
+}
+
+/**
+ * Connectors for a tenant's knowledge sources
+ */
+export function getTenantSources(id?: string): KnowledgeSource[] {
+  return requireTenant(id).sources.map(createKnowledgeSource);
+}
+
+/**
+ * Storage key for a tenant's copy of `key`. Every tenant except the default one is kept
+ * under tenants/<id>/, so one tenant's keys can never name another's.
+ */
+export function tenantStorageKey(id: string, key: string): string {
+  return id === DEFAULT_TENANT_ID ? key : `tenants/${requireTenant(id).id}/${key}`;
+}
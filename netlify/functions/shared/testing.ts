@@ -0,0 +1,134 @@
+/**
+ * Setup shared by the jest suites under netlify/functions: a throwaway filesystem store,
+ * quiet progress logs and records to store. Never imported by a function.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { QueryLogEntry } from './analytics';
+import { Article, ArticleChunk } from './articleStore';
+import { AnswerRecord } from './feedback';
+import { KnowledgeSource, SourceArticleRef } from './sources';
+import { createFileBackend, setStorageBackend, StorageBackend } from './storage';
+
+export interface TempStore {
+  rootDir: string;
+  storage: StorageBackend;
+  // Delete the directory and go back to the environment's storage backend
+  remove(): Promise<void>;
+}
+
+/**
+ * A filesystem store in a new temporary directory, made the active storage backend
+ */
+export async function createTempStore(name: string): Promise<TempStore> {
+  const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), `kb-${name}-`));
+  const storage = createFileBackend(rootDir);
+  setStorageBackend(storage);
+  return {
+    rootDir,
+    storage,
+    async remove() {
+      setStorageBackend(null);
+      await fs.rm(rootDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Silence the emoji progress logs the store, jobs and analytics write on every change.
+ * Returns the spies so tests can check what was logged; jest.restoreAllMocks() undoes it.
+ */
+export function quietLogs() {
+  return {
+    log: jest.spyOn(console, 'log').mockImplementation(() => {}),
+    warn: jest.spyOn(console, 'warn').mockImplementation(() => {}),
+  };
+}
+
+/**
+ * An article ready for storeArticle
+ */
+export function testArticle(id: string, name: string, text: string, fields: Partial<Article> = {}): Article {
+  return { id, name, text, url: `https://docs.example.com/${id}`, lastModified: '2024-01-01T00:00:00Z', chunks: [], ...fields };
+}
+
+/**
+ * The first chunk of an article, as search returns it
+ */
+export function testChunk(articleId: string, text: string, fields: Partial<ArticleChunk> = {}): ArticleChunk {
+  return {
+    id: `${articleId}-0`,
+    articleId,
+    articleName: `Article ${articleId}`,
+    text,
+    url: `https://docs.example.com/${articleId}`,
+    lastModified: '2024-01-01T00:00:00Z',
+    chunkIndex: 0,
+    ...fields,
+  };
+}
+
+/**
+ * A source listing `count` articles on one page; `onFetch` runs before each article is
+ * returned, e.g. to move a mocked clock or replace the job mid-run
+ */
+export function testSource(count: number, onFetch: (ref: SourceArticleRef) => void | Promise<void> = () => {}): KnowledgeSource {
+  const refs = Array.from({ length: count }, (_, i) => ({ id: `a${i}`, name: `Article ${i}`, updatedAt: '2024-01-01T00:00:00Z' }));
+  return {
+    id: 'docs',
+    type: 'test',
+    async listArticles() {
+      return { items: refs, nextCursor: null };
+    },
+    async fetchArticle(ref) {
+      await onFetch(ref);
+      return testArticle(ref.id, ref.name, `${ref.name} explains one setting of the dashboard.`, { sourceId: 'docs', lastModified: ref.updatedAt! });
+    },
+    async estimateTotal() {
+      return count;
+    },
+  };
+}
+
+/**
+ * A stored answer as chat records it, in the default tenant; its conversation isn't stored
+ */
+export function testAnswer(id: string, fields: Partial<AnswerRecord> = {}): AnswerRecord {
+  return {
+    id,
+    tenant: 'default',
+    query: `Question ${id}`,
+    searchQuery: `Question ${id}`,
+    answer: `Answer ${id}`,
+    answerable: true,
+    model: 'gpt-4o-mini',
+    profile: 'default',
+    language: 'en',
+    chunks: [],
+    conversationId: `conversation-${id}`,
+    createdAt: new Date().toISOString(),
+    ...fields,
+  };
+}
+
+/**
+ * A logged unanswered question, in the default tenant
+ */
+export function testQueryLogEntry(id: string, query: string, createdAt: string): QueryLogEntry {
+  return {
+    id,
+    tenant: 'default',
+    query,
+    searchQuery: query,
+    outcome: 'unanswered',
+    topSimilarity: null,
+    topRerankScore: null,
+    relevantChunks: 0,
+    sources: [],
+    citedArticleIds: [],
+    answerId: `answer-${id}`,
+    language: 'en',
+    createdAt,
+  };
+}
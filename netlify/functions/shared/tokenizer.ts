@@ -0,0 +1,35 @@
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+
+// All OpenAI embedding models use cl100k_base; it's also a sensible default for others
+const DEFAULT_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function encodingNameFor(model?: string): TiktokenEncoding {
+  if (!model) return DEFAULT_ENCODING;
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch (error) {
+    return DEFAULT_ENCODING;
+  }
+}
+
+/**
+ * Tokenizer for a model, built once per encoding since loading the ranks is expensive
+ */
+export function getTokenizer(model?: string): Tiktoken {
+  const name = encodingNameFor(model);
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = getEncoding(name);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Count tokens the way the model will
+ */
+export function countTokens(text: string, model?: string): number {
+  return getTokenizer(model).encode(text).length;
+}
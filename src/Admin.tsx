@@ -0,0 +1,524 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import './Admin.css';
+
+type EmbeddingStatus = 'current' | 'stale' | 'missing';
+
+interface JobSummary {
+  id: string;
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  processed: number;
+  diff: { added: number; updated: number; removed: number; unchanged: number };
+  errorCount: number;
+}
+
+interface IndexStats {
+  totalArticles: number;
+  totalChunks: number;
+  chunksWithEmbeddings: number;
+  sources: Record<string, { articles: number; chunks: number }>;
+  embeddingProvider: { type: string; model: string; dimensions?: number };
+  embeddingModels: Record<string, number>;
+  vectorIndex: { vectors: number; search: 'hnsw' | 'exact' } | null;
+  indexVersion: number;
+  storageBackend: string;
+  lastIngest: JobSummary | null;
+  ingestHistory: JobSummary[];
+}
+
+interface ArticleSummary {
+  id: string;
+  sourceId: string;
+  name: string;
+  url: string;
+  lastModified: string;
+  language?: string;
+  chunks: number;
+  embeddings: Record<EmbeddingStatus, number>;
+}
+
+interface ArticleDetail extends Omit<ArticleSummary, 'chunks'> {
+  text: string;
+  chunks: Array<{
+    id: string;
+    chunkIndex: number;
+    text: string;
+    headings?: string[];
+    embedding: { status: EmbeddingStatus; model: string | null; dimensions: number | null };
+  }>;
+}
+
+interface ArticlePage {
+  page: number;
+  total: number;
+  totalPages: number;
+  articles: ArticleSummary[];
+}
+
+interface RankedChunk {
+  id: string;
+  articleName: string;
+  url: string;
+  headings?: string[];
+  text: string;
+  score: number;
+  lexicalRank?: number;
+  semanticRank?: number;
+  similarity?: number;
+  rerankScore?: number;
+  relevant: boolean;
+}
+
+interface PlaygroundResult {
+  answer: string;
+  answerable: boolean;
+  rewrittenQuery: string;
+  profile: string;
+  groundingScore?: number;
+  usage?: { total_tokens: number } | null;
+  debug: {
+    similarityCutoff: number;
+    results: RankedChunk[];
+    // Null when nothing was relevant and the model wasn't asked
+    prompt: {
+      model: string;
+      messages: Array<{ role: string; content: string }>;
+      max_tokens?: number;
+      temperature?: number;
+    } | null;
+  };
+}
+
+type Tab = 'ingestion' | 'articles' | 'playground';
+
+// Knowledge base to manage, e.g. /admin?tenant=acme
+const TENANT = new URLSearchParams(window.location.search).get('tenant') || undefined;
+// Kept for the browser session only
+const ADMIN_KEY_STORAGE_KEY = 'adminApiKey';
+const PAGE_SIZE = 20;
+
+function adminUrl(path: string, params: Record<string, string | number | undefined> = {}): string {
+  const query = new URLSearchParams();
+  Object.entries({ ...params, tenant: TENANT }).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const search = query.toString();
+  return `/api/${path}${search ? `?${search}` : ''}`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function formatScore(value: number | undefined, digits: number = 3): string {
+  return value === undefined ? '—' : value.toFixed(digits);
+}
+
+function Admin() {
+  const [apiKey, setApiKey] = useState(() => sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY) || '');
+  const [keyDraft, setKeyDraft] = useState('');
+  const [tab, setTab] = useState<Tab>('ingestion');
+  const [error, setError] = useState<string | null>(null);
+
+  const [stats, setStats] = useState<IndexStats | null>(null);
+
+  const [articlePage, setArticlePage] = useState<ArticlePage | null>(null);
+  const [page, setPage] = useState(1);
+  // Name or id filter, applied when the search form is submitted
+  const [searchDraft, setSearchDraft] = useState('');
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState('');
+  const [article, setArticle] = useState<ArticleDetail | null>(null);
+  const [busyArticle, setBusyArticle] = useState<string | null>(null);
+
+  const [query, setQuery] = useState('');
+  const [profile, setProfile] = useState('');
+  const [playground, setPlayground] = useState<PlaygroundResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Admin requests with the key; errors are shown above the current tab
+  const adminFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${apiKey}` },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      // A wrong key is forgotten so it can be entered again
+      if (response.status === 401) {
+        sessionStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+        setApiKey('');
+      }
+      throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+    }
+    return data;
+  }, [apiKey]);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  const loadStats = useCallback(() => run(async () => {
+    setStats(await adminFetch(adminUrl('admin-index')));
+  }), [adminFetch, run]);
+
+  const loadArticles = useCallback(() => run(async () => {
+    setArticlePage(await adminFetch(adminUrl('admin-articles', { page, pageSize: PAGE_SIZE, q: search.trim(), source })));
+  }), [adminFetch, run, page, search, source]);
+
+  useEffect(() => {
+    if (apiKey) loadStats();
+  }, [apiKey, loadStats]);
+
+  useEffect(() => {
+    if (apiKey && tab === 'articles') loadArticles();
+  }, [apiKey, tab, loadArticles]);
+
+  const saveKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, keyDraft.trim());
+    setApiKey(keyDraft.trim());
+    setKeyDraft('');
+  };
+
+  const openArticle = (id: string) => run(async () => {
+    setArticle((await adminFetch(adminUrl('admin-articles', { id }))).article);
+  });
+
+  const reindexArticle = (id: string) => run(async () => {
+    setBusyArticle(id);
+    try {
+      setArticle((await adminFetch(adminUrl('admin-articles', { id }), { method: 'POST' })).article);
+      await loadArticles();
+    } finally {
+      setBusyArticle(null);
+    }
+  });
+
+  const deleteArticle = (summary: ArticleSummary | ArticleDetail) => {
+    if (!window.confirm(`Delete "${summary.name}" from the index? The next ingest adds it again if it's still in ${summary.sourceId}.`)) return;
+    run(async () => {
+      setBusyArticle(summary.id);
+      try {
+        await adminFetch(adminUrl('admin-articles', { id: summary.id }), { method: 'DELETE' });
+        if (article && article.id === summary.id) setArticle(null);
+        await loadArticles();
+      } finally {
+        setBusyArticle(null);
+      }
+    });
+  };
+
+  const runPlayground = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    run(async () => {
+      setIsSearching(true);
+      try {
+        setPlayground(await adminFetch('/api/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query, debug: true, profile: profile.trim() || undefined, tenant: TENANT }),
+        }));
+      } finally {
+        setIsSearching(false);
+      }
+    });
+  };
+
+  if (!apiKey) {
+    return (
+      <div className="admin">
+        <header className="admin-header">
+          <h1>Knowledge Base Admin</h1>
+        </header>
+        <form className="admin-key-form" onSubmit={saveKey}>
+          <label htmlFor="admin-key">Admin API key</label>
+          <input id="admin-key" type="password" value={keyDraft} onChange={e => setKeyDraft(e.target.value)} autoFocus />
+          <button type="submit" disabled={!keyDraft.trim()}>Sign in</button>
+          {error && <div className="admin-error">{error}</div>}
+        </form>
+      </div>
+    );
+  }
+
+  const renderJob = (job: JobSummary) => (
+    <tr key={job.id}>
+      <td>{job.id}</td>
+      <td className={`job-status job-${job.status}`}>{job.status}</td>
+      <td>{formatDate(job.startedAt)}</td>
+      <td>{formatDate(job.finishedAt)}</td>
+      <td>{job.processed}</td>
+      <td>{job.diff.added} / {job.diff.updated} / {job.diff.removed} / {job.diff.unchanged}</td>
+      <td>{job.errorCount}</td>
+    </tr>
+  );
+
+  const jobTableHead = (
+    <thead>
+      <tr>
+        <th>Job</th>
+        <th>Status</th>
+        <th>Started</th>
+        <th>Finished</th>
+        <th>Processed</th>
+        <th>Added / updated / removed / unchanged</th>
+        <th>Errors</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="admin">
+      <header className="admin-header">
+        <h1>Knowledge Base Admin{TENANT && ` – ${TENANT}`}</h1>
+        <nav className="admin-tabs">
+          {(['ingestion', 'articles', 'playground'] as Tab[]).map(name => (
+            <button key={name} className={tab === name ? 'selected' : ''} onClick={() => setTab(name)}>
+              {name === 'ingestion' ? 'Ingestion' : name === 'articles' ? 'Articles' : 'Search Playground'}
+            </button>
+          ))}
+        </nav>
+        <button
+          className="admin-sign-out"
+          onClick={() => {
+            sessionStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+            setApiKey('');
+          }}
+        >
+          Sign out
+        </button>
+      </header>
+
+      <main className="admin-content">
+        {error && <div className="admin-error">{error}</div>}
+
+        {tab === 'ingestion' && (
+          <section>
+            <button className="admin-button" onClick={loadStats}>Refresh</button>
+            {stats && (
+              <>
+                <h2>Index</h2>
+                <dl className="admin-stats">
+                  <dt>Articles</dt><dd>{stats.totalArticles}</dd>
+                  <dt>Chunks</dt><dd>{stats.totalChunks} ({stats.chunksWithEmbeddings} embedded)</dd>
+                  <dt>Embedding model</dt><dd>{stats.embeddingProvider.model} ({stats.embeddingProvider.type})</dd>
+                  <dt>Vectors by model</dt>
+                  <dd>{Object.entries(stats.embeddingModels).map(([model, count]) => `${model}: ${count}`).join(', ') || '—'}</dd>
+                  <dt>Vector search</dt><dd>{stats.vectorIndex ? `${stats.vectorIndex.search} over ${stats.vectorIndex.vectors} vectors` : '—'}</dd>
+                  <dt>Index version</dt><dd>v{stats.indexVersion} in {stats.storageBackend} storage</dd>
+                </dl>
+
+                <h2>Sources</h2>
+                <table className="admin-table">
+                  <thead>
+                    <tr><th>Source</th><th>Articles</th><th>Chunks</th></tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(stats.sources).map(([id, counts]) => (
+                      <tr key={id}><td>{id}</td><td>{counts.articles}</td><td>{counts.chunks}</td></tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <h2>Current ingest</h2>
+                {stats.lastIngest ? (
+                  <table className="admin-table">
+                    {jobTableHead}
+                    <tbody>{renderJob(stats.lastIngest)}</tbody>
+                  </table>
+                ) : (
+                  <p>No ingest has run yet.</p>
+                )}
+
+                <h2>History</h2>
+                {stats.ingestHistory.length > 0 ? (
+                  <table className="admin-table">
+                    {jobTableHead}
+                    <tbody>{stats.ingestHistory.map(renderJob)}</tbody>
+                  </table>
+                ) : (
+                  <p>No finished ingests yet.</p>
+                )}
+              </>
+            )}
+          </section>
+        )}
+
+        {tab === 'articles' && (
+          <section className="admin-articles">
+            <div className="admin-article-list">
+              <form
+                className="admin-filters"
+                onSubmit={e => {
+                  e.preventDefault();
+                  setSearch(searchDraft);
+                  setPage(1);
+                }}
+              >
+                <input value={searchDraft} onChange={e => setSearchDraft(e.target.value)} placeholder="Search by name or id" />
+                <select
+                  value={source}
+                  onChange={e => {
+                    setSource(e.target.value);
+                    setPage(1);
+                  }}
+                >
+                  <option value="">All sources</option>
+                  {stats && Object.keys(stats.sources).map(id => <option key={id} value={id}>{id}</option>)}
+                </select>
+                <button type="submit" className="admin-button">Search</button>
+              </form>
+
+              {articlePage && (
+                <>
+                  <table className="admin-table">
+                    <thead>
+                      <tr><th>Article</th><th>Source</th><th>Chunks</th><th>Embeddings</th><th>Updated</th><th></th></tr>
+                    </thead>
+                    <tbody>
+                      {articlePage.articles.map(summary => (
+                        <tr key={summary.id} className={article && article.id === summary.id ? 'selected' : ''}>
+                          <td>
+                            <button className="admin-link" onClick={() => openArticle(summary.id)}>{summary.name}</button>
+                          </td>
+                          <td>{summary.sourceId}</td>
+                          <td>{summary.chunks}</td>
+                          <td>
+                            {summary.embeddings.current} current
+                            {summary.embeddings.stale > 0 && <span className="embedding-stale">, {summary.embeddings.stale} stale</span>}
+                            {summary.embeddings.missing > 0 && <span className="embedding-missing">, {summary.embeddings.missing} missing</span>}
+                          </td>
+                          <td>{formatDate(summary.lastModified)}</td>
+                          <td className="admin-actions">
+                            <button onClick={() => reindexArticle(summary.id)} disabled={busyArticle !== null}>Re-index</button>
+                            <button onClick={() => deleteArticle(summary)} disabled={busyArticle !== null}>Delete</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="admin-pager">
+                    <button onClick={() => setPage(page - 1)} disabled={page <= 1}>Previous</button>
+                    <span>Page {articlePage.page} of {Math.max(articlePage.totalPages, 1)} ({articlePage.total} articles)</span>
+                    <button onClick={() => setPage(page + 1)} disabled={page >= articlePage.totalPages}>Next</button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {article && (
+              <div className="admin-article-detail">
+                <h2>
+                  <a href={article.url} target="_blank" rel="noopener noreferrer">{article.name}</a>
+                </h2>
+                <p className="admin-muted">
+                  {article.id} · {article.sourceId}{article.language && ` · ${article.language}`} · updated {formatDate(article.lastModified)}
+                </p>
+                {article.chunks.map(chunk => (
+                  <div key={chunk.id} className="admin-chunk">
+                    <div className="admin-chunk-header">
+                      <strong>#{chunk.chunkIndex}</strong>
+                      {chunk.headings && chunk.headings.length > 0 && <span>{chunk.headings.join(' › ')}</span>}
+                      <span className={`embedding-${chunk.embedding.status}`}>
+                        {chunk.embedding.status}
+                        {chunk.embedding.model && ` (${chunk.embedding.model}, ${chunk.embedding.dimensions} dims)`}
+                      </span>
+                    </div>
+                    <pre>{chunk.text}</pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {tab === 'playground' && (
+          <section>
+            <form className="admin-playground-form" onSubmit={runPlayground}>
+              <textarea value={query} onChange={e => setQuery(e.target.value)} placeholder="Ask a question to see how it's answered" rows={3} />
+              <input value={profile} onChange={e => setProfile(e.target.value)} placeholder="Profile (optional)" />
+              <button type="submit" className="admin-button" disabled={isSearching || !query.trim()}>
+                {isSearching ? 'Running…' : 'Run'}
+              </button>
+            </form>
+
+            {playground && (
+              <>
+                <h2>Ranked chunks</h2>
+                <p className="admin-muted">
+                  Searched for "{playground.rewrittenQuery}" with the {playground.profile} profile. Chunks below a similarity of{' '}
+                  {playground.debug.similarityCutoff.toFixed(3)} are only relevant if keywords or the reranker matched them.
+                </p>
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>#</th><th>Chunk</th><th>Relevant</th><th>Fused score</th><th>Similarity</th>
+                      <th>Keyword rank</th><th>Vector rank</th><th>Rerank score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {playground.debug.results.map((result, index) => (
+                      <tr key={result.id} className={result.relevant ? '' : 'irrelevant'}>
+                        <td>{index + 1}</td>
+                        <td>
+                          <details>
+                            <summary>
+                              {result.articleName}
+                              {result.headings && result.headings.length > 0 && ` › ${result.headings[result.headings.length - 1]}`}
+                            </summary>
+                            <pre>{result.text}</pre>
+                          </details>
+                        </td>
+                        <td>{result.relevant ? '✓' : ''}</td>
+                        <td>{formatScore(result.score, 4)}</td>
+                        <td>{formatScore(result.similarity)}</td>
+                        <td>{result.lexicalRank ?? '—'}</td>
+                        <td>{result.semanticRank ?? '—'}</td>
+                        <td>{formatScore(result.rerankScore)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <h2>Prompt</h2>
+                {playground.debug.prompt ? (
+                  <>
+                    <p className="admin-muted">
+                      {playground.debug.prompt.model}, temperature {playground.debug.prompt.temperature ?? 'default'}, up to{' '}
+                      {playground.debug.prompt.max_tokens ?? 'unlimited'} tokens
+                    </p>
+                    {playground.debug.prompt.messages.map((message, index) => (
+                      <div key={index} className="admin-prompt-message">
+                        <strong>{message.role}</strong>
+                        <pre>{message.content}</pre>
+                      </div>
+                    ))}
+                  </>
+                ) : (
+                  <p>No chunk was relevant, so the model wasn't asked.</p>
+                )}
+
+                <h2>Answer</h2>
+                <p className="admin-muted">
+                  {playground.answerable ? 'Answered' : 'Not answerable'}
+                  {playground.groundingScore !== undefined && ` · grounding score ${playground.groundingScore.toFixed(2)}`}
+                  {playground.usage && ` · ${playground.usage.total_tokens} tokens`}
+                </p>
+                <pre className="admin-answer">{playground.answer}</pre>
+              </>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default Admin;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import './App.css';
 
 interface Source {
@@ -6,6 +6,16 @@ interface Source {
   url: string;
 }
 
+interface Citation {
+  number: number;
+  chunkId: string;
+  articleName: string;
+  url: string;
+  snippet: string;
+  // False when a quote attributed to this source isn't in it; true when nothing was quoted
+  verified: boolean;
+}
+
 interface Message {
   id: string;
   text: string;
@@ -13,95 +23,442 @@ interface Message {
   timestamp: Date;
   sources?: Source[];
   relevantChunks?: number;
+  // False when the docs had nothing relevant; sources are then suggestions
+  answerable?: boolean;
+  // Standalone query the server searched with, when it differs from the question
+  searchQuery?: string;
+  // Footnotes for the [n] markers in the text
+  citations?: Citation[];
+  // Sentences the grounding check couldn't match to the documentation
+  unsupportedClaims?: string[];
+  // Further reading on the same topic, beyond the sources
+  relatedArticles?: Source[];
+  // Questions the documentation can answer next, sent when clicked
+  followUpQuestions?: string[];
+  // Server id of the answer, needed to rate it
+  answerId?: string;
+  rating?: Rating;
+  // Whether the user sent a comment with their rating
+  commented?: boolean;
+}
+
+type Rating = 'up' | 'down';
+
+interface IngestJobStatus {
+  id: string;
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+  sources: Array<{ id: string; type: string }>;
+  processed: number;
+  total: number;
+  remaining: number;
+  etaSeconds: number | null;
+  diff: {
+    added: Array<{ id: string; name: string }>;
+    updated: Array<{ id: string; name: string }>;
+    removed: Array<{ id: string; name: string }>;
+    unchanged: number;
+  };
+  errorCount: number;
+  errors: string[];
+  warningCount: number;
+  warnings: string[];
+}
+
+// Events streamed by /api/chat: sources, then the answer as deltas, then done or error
+type ChatStreamEvent =
+  | {
+    event: 'sources';
+    data: {
+      answerable: boolean;
+      sources: Source[];
+      suggestedArticles?: Source[];
+      relatedArticles?: Source[];
+      conversationId?: string;
+      rewrittenQuery?: string;
+    };
+  }
+  | { event: 'delta'; data: { text: string } }
+  | {
+    event: 'done';
+    data: {
+      answerId?: string;
+      answerable: boolean;
+      // The answer after the grounding check, when it ran
+      answer?: string;
+      relevantChunks?: number;
+      suggestedArticles?: Source[];
+      relatedArticles?: Source[];
+      citations?: Citation[];
+      followUpQuestions?: string[];
+      unsupportedClaims?: string[];
+    };
+  }
+  | { event: 'error'; data: { error?: string; message?: string } };
+
+const CHAT_STREAM_EVENTS: Array<ChatStreamEvent['event']> = ['sources', 'delta', 'done', 'error'];
+
+function isChatStreamEvent(event: string): event is ChatStreamEvent['event'] {
+  return CHAT_STREAM_EVENTS.some(name => name === event);
+}
+
+interface StorageStats {
+  totalArticles: number;
+  totalChunks: number;
+  chunksWithEmbeddings: number;
+}
+
+const INGEST_POLL_INTERVAL_MS = 3000;
+// Assistant profile for this page, e.g. ?profile=support for the agents' view
+const ASSISTANT_PROFILE = new URLSearchParams(window.location.search).get('profile') || undefined;
+// Knowledge base this page answers from, e.g. ?tenant=acme for one client's docs
+const TENANT = new URLSearchParams(window.location.search).get('tenant') || undefined;
+
+// Where the current conversation's id is kept, so a reload resumes it
+const CONVERSATION_STORAGE_KEY = `conversation:${TENANT || 'default'}`;
+
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  answerId?: string;
+  answerable?: boolean;
+  sources?: Source[];
+  citations?: Citation[];
+}
+
+function conversationUrl(id: string, format: string = 'json'): string {
+  const params = new URLSearchParams({ id, format });
+  if (TENANT) params.set('tenant', TENANT);
+  return `/api/conversation?${params}`;
+}
+
+// Stored turns back as chat messages
+function turnsToMessages(conversationId: string, turns: ConversationTurn[]): Message[] {
+  return turns.map((turn, index) => ({
+    id: `${conversationId}-${index}`,
+    text: turn.content,
+    isUser: turn.role === 'user',
+    timestamp: new Date(turn.createdAt),
+    sources: turn.sources,
+    answerable: turn.role === 'assistant' ? turn.answerable !== false : undefined,
+    citations: turn.citations,
+    answerId: turn.answerId,
+  }));
+}
+
+function formatIngestStatus(job: IngestJobStatus, storageStats?: StorageStats): string {
+  const { diff } = job;
+  const changes = `${diff.added.length} added, ${diff.updated.length} updated, ${diff.removed.length} removed, ${diff.unchanged} unchanged`;
+
+  if (job.status === 'completed') {
+    const stats = storageStats
+      ? `\nStorage Stats: ${storageStats.totalArticles} articles, ${storageStats.totalChunks} chunks, ${storageStats.chunksWithEmbeddings} with embeddings.`
+      : '';
+    return `✅ Knowledge Base Connected!\n\nProcessed ${job.processed} articles from ${job.sources.map(source => source.id).join(', ')}.${stats}\n\nChanges since last ingest: ${changes}.${job.errorCount > 0 ? `\n⚠️ ${job.errorCount} errors` : ''}${job.warningCount > 0 ? `\n⚠️ ${job.warningCount} warnings:\n${job.warnings.map(warning => `• ${warning}`).join('\n')}` : ''}\n\nYour chat can now access your documentation!`;
+  }
+
+  if (job.status === 'failed') {
+    return `❌ Ingestion failed after ${job.processed} articles.\n\n${job.errors.slice(-3).join('\n')}`;
+  }
+
+  const eta = job.etaSeconds !== null ? ` - about ${Math.ceil(job.etaSeconds / 60)} min remaining` : '';
+  return `⏳ Ingesting knowledge base (${job.status})...\n\n${job.processed} of ${job.total} articles processed, ${job.remaining} remaining${eta}.\nChanges so far: ${changes}.${job.errorCount > 0 ? `\n⚠️ ${job.errorCount} errors` : ''}`;
+}
+
+// Calls onEvent for each chat event in a streamed response until it ends; other events are skipped
+async function readServerSentEvents(response: Response, onEvent: (streamEvent: ChatStreamEvent) => void): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      // The server pairs each event name with its data shape
+      if (data && isChatStreamEvent(event)) onEvent({ event, data: JSON.parse(data) } as ChatStreamEvent);
+    }
+  }
+}
+
+const CITATION_MARKER = /(\[\d+(?:\s*,\s*\d+)*\])/;
+
+// Answer text with [n] markers linked to the message's footnotes
+function renderWithCitations(message: Message): React.ReactNode {
+  if (!message.citations || message.citations.length === 0) return message.text;
+  const cited = new Set(message.citations.map(citation => citation.number));
+
+  return message.text.split(CITATION_MARKER).map((part, index) => {
+    if (!CITATION_MARKER.test(part)) return part;
+    const numbers = part.slice(1, -1).split(',').map(value => Number(value.trim())).filter(n => cited.has(n));
+    return (
+      <sup key={index} className="citation-marker">
+        {numbers.map(n => (
+          <a key={n} href={`#cite-${message.id}-${n}`}>[{n}]</a>
+        ))}
+      </sup>
+    );
+  });
 }
 
 function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isIngesting, setIsIngesting] = useState(false);
+  // Answer currently being streamed in, and how to stop it
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+  // Feedback comments being typed, by message id
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const [conversationId, setConversationId] = useState<string | null>(() => localStorage.getItem(CONVERSATION_STORAGE_KEY));
+
+  const startConversation = (id: string | null) => {
+    setConversationId(id);
+    if (id) localStorage.setItem(CONVERSATION_STORAGE_KEY, id);
+    else localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+  };
+
+  // Resume the stored conversation on load; an expired one starts a new conversation
+  useEffect(() => {
+    const id = localStorage.getItem(CONVERSATION_STORAGE_KEY);
+    if (!id) return;
+
+    fetch(conversationUrl(id))
+      .then(async response => {
+        if (response.status === 404) {
+          localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+          setConversationId(null);
+          return;
+        }
+        if (!response.ok) throw new Error(`Loading the conversation failed with status ${response.status}`);
+        const conversation = await response.json();
+        setMessages(prev => [...turnsToMessages(id, conversation.turns), ...prev]);
+      })
+      .catch(error => console.error('Error resuming conversation:', error));
+  }, []);
+
+  const newConversation = () => {
+    abortController.current?.abort();
+    startConversation(null);
+    setMessages([]);
+  };
+
+  const updateMessage = (id: string, text: string) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, text } : message)));
+  };
 
   const testKnowledgeBase = async () => {
-    setIsLoading(true);
+    setIsIngesting(true);
+    const progressId = Date.now().toString();
+
     try {
       const response = await fetch('/api/ingest', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ tenant: TENANT }),
       });
 
       const data = await response.json();
-      
-      const testMessage: Message = {
-        id: Date.now().toString(),
-        text: `✅ Knowledge Base Connected!\n\nFound ${data.collections} collections with ${data.docsProcessed} articles processed.\nStorage Stats: ${data.storageStats.totalChunks} chunks created, ${data.storageStats.chunksWithEmbeddings} with embeddings.\n\nPreview of articles:\n${data.preview.map((item: any) => `• ${item.name} (${item.textLength} chars)`).join('\n')}\n\nYour chat can now access HelpScout documentation!`,
+      if (!response.ok) {
+        throw new Error(data.message || data.error);
+      }
+
+      const progressMessage: Message = {
+        id: progressId,
+        text: formatIngestStatus(data.job),
         isUser: false,
         timestamp: new Date(),
       };
+      setMessages(prev => [...prev, progressMessage]);
+
+      // Poll the status endpoint until the background job finishes
+      let job: IngestJobStatus = data.job;
+      let storageStats: StorageStats | undefined;
+      while (job.status !== 'completed' && job.status !== 'failed') {
+        await new Promise(resolve => setTimeout(resolve, INGEST_POLL_INTERVAL_MS));
+
+        const statusResponse = await fetch(`/api/ingest-status${TENANT ? `?tenant=${encodeURIComponent(TENANT)}` : ''}`);
+        const status = await statusResponse.json();
+        if (!statusResponse.ok || !status.job) {
+          throw new Error(status.message || status.error);
+        }
 
-      setMessages(prev => [...prev, testMessage]);
+        job = status.job;
+        storageStats = status.storageStats;
+        updateMessage(progressId, formatIngestStatus(job, storageStats));
+      }
     } catch (error) {
       const errorMessage: Message = {
-        id: Date.now().toString(),
+        id: (Date.now() + 1).toString(),
         text: '❌ Knowledge Base connection failed. Please check your HelpScout API key.',
         isUser: false,
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
-      setIsLoading(false);
+      setIsIngesting(false);
     }
   };
 
-  const sendMessage = async () => {
-    if (!inputText.trim()) return;
+  // Sends the typed question, or a suggested follow-up when one is clicked
+  const sendMessage = async (text: string = inputText) => {
+    if (!text.trim() || isLoading) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
-      text: inputText,
+      text,
       isUser: true,
       timestamp: new Date(),
     };
 
+    // Earlier questions and answers, skipping ingestion status messages; a stored
+    // conversation already has them
+    const history = conversationId ? undefined : messages
+      .filter(message => message.isUser || message.answerable !== undefined)
+      .map(message => ({ role: message.isUser ? 'user' : 'assistant', content: message.text }));
+
     setMessages(prev => [...prev, userMessage]);
-    setInputText('');
+    // A clicked suggestion leaves whatever is being typed alone
+    if (text === inputText) setInputText('');
     setIsLoading(true);
 
+    const botId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortController.current = controller;
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
-        body: JSON.stringify({ query: inputText }),
+        body: JSON.stringify({ query: text, history, conversationId: conversationId || undefined, stream: true, profile: ASSISTANT_PROFILE, tenant: TENANT }),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
+      if (!response.ok || !response.body) {
+        // The stored conversation expired; the next question starts a new one
+        if (response.status === 404 && conversationId) startConversation(null);
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || data.error || `Chat request failed with status ${response.status}`);
+      }
 
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: data.answer || 'Sorry, I encountered an error.',
-        isUser: false,
-        timestamp: new Date(),
-        sources: data.sources || [],
-        relevantChunks: data.relevantChunks || 0,
+      const updateBotMessage = (update: (message: Message) => Message) => {
+        setMessages(prev => prev.map(message => (message.id === botId ? update(message) : message)));
       };
 
-      setMessages(prev => [...prev, botMessage]);
+      // Sources arrive first, then the answer a few tokens at a time
+      await readServerSentEvents(response, streamEvent => {
+        switch (streamEvent.event) {
+          case 'sources': {
+            const { data } = streamEvent;
+            if (data.conversationId) startConversation(data.conversationId);
+            const botMessage: Message = {
+              id: botId,
+              text: '',
+              isUser: false,
+              timestamp: new Date(),
+              sources: data.answerable === false ? data.suggestedArticles || [] : data.sources || [],
+              relatedArticles: data.relatedArticles || [],
+              answerable: data.answerable,
+              searchQuery: data.rewrittenQuery && data.rewrittenQuery !== text ? data.rewrittenQuery : undefined,
+            };
+            setMessages(prev => [...prev, botMessage]);
+            setStreamingId(botId);
+            break;
+          }
+          case 'delta': {
+            const { data } = streamEvent;
+            updateBotMessage(message => ({ ...message, text: message.text + data.text }));
+            break;
+          }
+          case 'done': {
+            const { data } = streamEvent;
+            // The grounding check may have trimmed the answer or replaced it with the fallback
+            updateBotMessage(message => ({
+              ...message,
+              text: data.answer !== undefined ? data.answer : message.text,
+              answerId: data.answerId,
+              sources: data.answerable === false ? data.suggestedArticles || [] : message.sources,
+              answerable: data.answerable,
+              relevantChunks: data.answerable === false ? 0 : data.relevantChunks || 0,
+              citations: data.citations || [],
+              relatedArticles: data.answerable === false ? [] : data.relatedArticles || message.relatedArticles,
+              followUpQuestions: data.followUpQuestions || [],
+              unsupportedClaims: data.answerable === false ? undefined : data.unsupportedClaims,
+            }));
+            break;
+          }
+          case 'error':
+            throw new Error(streamEvent.data.message || streamEvent.data.error);
+        }
+      });
     } catch (error) {
-      console.error('Error sending message:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: 'Sorry, I encountered an error while processing your request.',
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      // Stopping keeps whatever part of the answer already arrived
+      if (!controller.signal.aborted) {
+        console.error('Error sending message:', error);
+        const errorMessage: Message = {
+          id: (Date.now() + 2).toString(),
+          text: 'Sorry, I encountered an error while processing your request.',
+          isUser: false,
+          timestamp: new Date(),
+        };
+        setMessages(prev => [...prev, errorMessage]);
+      }
     } finally {
+      abortController.current = null;
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  // Thumbs up/down, then optionally a comment sent with the same rating
+  const rateAnswer = async (message: Message, rating: Rating, comment?: string) => {
+    if (!message.answerId) return;
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answerId: message.answerId, rating, comment, tenant: TENANT }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || data.error || `Feedback failed with status ${response.status}`);
+      }
+
+      setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, rating, commented: m.commented || Boolean(comment) } : m)));
+      if (comment) {
+        setCommentDrafts(prev => ({ ...prev, [message.id]: '' }));
+      }
+    } catch (error) {
+      console.error('Error sending feedback:', error);
+    }
+  };
+
+  const stopAnswer = () => {
+    abortController.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -118,10 +475,21 @@ function App() {
           <button 
             onClick={testKnowledgeBase}
             className="test-kb-button"
-            disabled={isLoading}
+            disabled={isLoading || isIngesting}
           >
             Test Knowledge Base Connection
           </button>
+          <button onClick={newConversation} className="new-conversation-button" disabled={messages.length === 0}>
+            New Conversation
+          </button>
+          {conversationId && (
+            <div className="conversation-export">
+              Export:{' '}
+              <a href={conversationUrl(conversationId, 'markdown')} download={`conversation-${conversationId}.md`}>Markdown</a>{' · '}
+              <a href={conversationUrl(conversationId, 'text')} download={`conversation-${conversationId}.txt`}>Text</a>{' · '}
+              <a href={conversationUrl(conversationId, 'json')} download={`conversation-${conversationId}.json`}>JSON</a>
+            </div>
+          )}
         </header>
         
         <div className="messages-container">
@@ -131,25 +499,114 @@ function App() {
               className={`message ${message.isUser ? 'user-message' : 'bot-message'}`}
             >
               <div className="message-content">
-                {message.text}
+                {/* A checked answer only arrives once the grounding check has run */}
+                {message.id === streamingId && !message.text ? (
+                  <div className="typing-indicator">
+                    <span></span>
+                    <span></span>
+                    <span></span>
+                  </div>
+                ) : renderWithCitations(message)}
               </div>
+              {message.unsupportedClaims && message.unsupportedClaims.length > 0 && (
+                <div className="grounding-warning" title={message.unsupportedClaims.join('\n')}>
+                  ⚠️ {message.unsupportedClaims.length} statement{message.unsupportedClaims.length === 1 ? '' : 's'} could not be verified against the documentation
+                </div>
+              )}
               {message.sources && message.sources.length > 0 && (
                 <div className="message-sources">
-                  <strong>Sources:</strong>
-                  <ul>
-                    {message.sources.map((source, index) => (
-                      <li key={index}>
-                        <a href={source.url} target="_blank" rel="noopener noreferrer">
-                          {source.name}
-                        </a>
-                      </li>
-                    ))}
-                  </ul>
-                  {message.relevantChunks && (
+                  <strong>{message.answerable === false ? 'You might find these articles helpful:' : 'Sources:'}</strong>
+                  {message.citations && message.citations.length > 0 ? (
+                    <ol className="citations">
+                      {message.citations.map(citation => (
+                        <li key={citation.number} id={`cite-${message.id}-${citation.number}`} value={citation.number}>
+                          <a href={citation.url} target="_blank" rel="noopener noreferrer">
+                            {citation.articleName}
+                          </a>
+                          {!citation.verified && (
+                            <span className="citation-unverified" title="A quote attributed to this article was not found in it">
+                              {' '}⚠️ quote not found
+                            </span>
+                          )}
+                          <div className="citation-snippet">{citation.snippet}</div>
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <ul>
+                      {message.sources.map((source, index) => (
+                        <li key={index}>
+                          <a href={source.url} target="_blank" rel="noopener noreferrer">
+                            {source.name}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {message.relevantChunks ? (
                     <div className="chunks-info">
                       Found {message.relevantChunks} relevant article sections
+                      {message.searchQuery && ` for "${message.searchQuery}"`}
                     </div>
+                  ) : null}
+                </div>
+              )}
+              {message.relatedArticles && message.relatedArticles.length > 0 && (
+                <div className="message-chips">
+                  <strong>Related articles:</strong>
+                  {message.relatedArticles.map(article => (
+                    <a key={article.url} className="chip" href={article.url} target="_blank" rel="noopener noreferrer">
+                      {article.name}
+                    </a>
+                  ))}
+                </div>
+              )}
+              {message.followUpQuestions && message.followUpQuestions.length > 0 && (
+                <div className="message-chips">
+                  <strong>You could also ask:</strong>
+                  {message.followUpQuestions.map(question => (
+                    <button key={question} className="chip" onClick={() => sendMessage(question)} disabled={isLoading}>
+                      {question}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {message.answerId && (
+                <div className="message-feedback">
+                  <button
+                    className={`feedback-button${message.rating === 'up' ? ' selected' : ''}`}
+                    onClick={() => rateAnswer(message, 'up')}
+                    title="Helpful answer"
+                  >
+                    👍
+                  </button>
+                  <button
+                    className={`feedback-button${message.rating === 'down' ? ' selected' : ''}`}
+                    onClick={() => rateAnswer(message, 'down')}
+                    title="Wrong or unhelpful answer"
+                  >
+                    👎
+                  </button>
+                  {message.rating && !message.commented && (
+                    <form
+                      className="feedback-comment"
+                      onSubmit={e => {
+                        e.preventDefault();
+                        rateAnswer(message, message.rating!, commentDrafts[message.id]);
+                      }}
+                    >
+                      <input
+                        value={commentDrafts[message.id] || ''}
+                        onChange={e => setCommentDrafts(prev => ({ ...prev, [message.id]: e.target.value }))}
+                        placeholder={message.rating === 'down' ? 'What was wrong? (optional)' : 'Any comments? (optional)'}
+                        maxLength={2000}
+                      />
+                      <button type="submit" disabled={!(commentDrafts[message.id] || '').trim()}>
+                        Send
+                      </button>
+                    </form>
                   )}
+                  {message.commented && <span className="feedback-thanks">Thanks for your feedback!</span>}
                 </div>
               )}
               <div className="message-timestamp">
@@ -157,7 +614,7 @@ function App() {
               </div>
             </div>
           ))}
-          {isLoading && (
+          {isLoading && !streamingId && (
             <div className="message bot-message">
               <div className="message-content">
                 <div className="typing-indicator">
@@ -179,13 +636,19 @@ function App() {
             className="message-input"
             rows={3}
           />
-          <button
-            onClick={sendMessage}
-            disabled={!inputText.trim() || isLoading}
-            className="send-button"
-          >
-            Send
-          </button>
+          {isLoading ? (
+            <button onClick={stopAnswer} className="send-button stop-button">
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => sendMessage()}
+              disabled={!inputText.trim()}
+              className="send-button"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>